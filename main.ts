@@ -1,4 +1,4 @@
-import { Plugin, Notice, TFile, MarkdownView, ItemView, WorkspaceLeaf } from 'obsidian';
+import { Plugin, Notice, MarkdownView, ItemView, WorkspaceLeaf } from 'obsidian';
 import { NetworkPromptsService } from './src/core/network-prompts';
 
 // Core modules
@@ -6,20 +6,29 @@ import { ReminderScheduler } from './src/core/scheduler';
 import { TemplateEngine } from './src/core/template-engine';
 import { DataManager } from './src/core/data-manager';
 import { SessionManager } from './src/core/session-manager';
+import { countIn, isCountUnit } from './src/core/word-counter';
 import { TemplateManager } from './src/core/template-manager';
+import { ProjectManager } from './src/core/project-manager';
+import { StreakManager } from './src/core/streak-manager';
+import { ReminderManager } from './src/core/reminder-manager';
+import { SprintManager } from './src/core/sprint-manager';
+import { addDays, weekday } from './src/core/dates';
+import { PHASE_LABELS, formatCountdown } from './src/core/pomodoro';
 
 // Purpose-based modules
 import { QaOnboardingWizard } from './src/ui/qa-onboarding-wizard';
 import { QaReviewModal } from './src/ui/qa-review-modal';
-import { PurposeSessionManager } from './src/core/purpose-session-manager';
 import { WeeklyPlanner } from './src/core/weekly-planner';
 import { ToastManager } from './src/ui/toast';
+import { Notifier } from './src/ui/notifier';
 import { EstimationEngine } from './src/core/estimation-engine';
 import { WritingMomentumSettingTab } from './src/ui/settings-tab';
+import { SprintModal } from './src/ui/sprint-modal';
+import { renderSparkline } from './src/ui/sparkline';
 
 // Types
-import type { WritingMomentumSettings, WritingSession, WritingProfile, SessionLog } from './src/types/interfaces';
-import { DEFAULT_SETTINGS } from './src/types/interfaces';
+import type { WritingMomentumSettings, WritingSession, WritingProfile, SessionLog, PeriodMode, PomodoroState, SprintState, PersonalBests, FilePathRule } from './src/types/interfaces';
+import { DEFAULT_SETTINGS, SPRINT_DURATIONS, UNIT_LABELS } from './src/types/interfaces';
 
 // Remove duplicate interfaces - using imported ones from types/interfaces.ts
 
@@ -32,6 +41,9 @@ interface PluginData {
 	[key: string]: unknown;
 }
 
+// Keys in data.json owned by the data manager, the profile or migrations rather than the settings
+const STORED_DATA_KEYS = ['writingData', 'writingProfile', 'sessionLogs', 'sessionHistory'];
+
 const WRITING_PROMPTS = [
 	// Creative Questions
 	"What if gravity worked backwards for one day?",
@@ -166,19 +178,20 @@ export default class WritingMomentumPlugin extends Plugin {
 	dataManager: DataManager;
 	templateEngine: TemplateEngine;
 	templateManager: TemplateManager;
+	projectManager: ProjectManager;
+	streakManager: StreakManager;
 	sessionManager: SessionManager;
 	reminderScheduler: ReminderScheduler;
+	reminderManager: ReminderManager;
+	sprintManager: SprintManager;
 	statusBarItem: HTMLElement | null = null;
-	currentSession: WritingSession | null = null;
-	private wordCountInterval: number | null = null;
 	randomPrompts: NetworkPromptsService;
 	isMobile: boolean = false;
 
 	// Purpose-based system
-	purposeSessionManager: PurposeSessionManager | null = null;
 	toastManager: ToastManager;
+	notifier: Notifier;
 	activeProfile: WritingProfile | null = null;
-	sessionLogs: SessionLog[] = [];
 	private nudgeInterval: number | null = null;
 
 	async onload() {
@@ -192,8 +205,12 @@ export default class WritingMomentumPlugin extends Plugin {
 		this.dataManager = new DataManager(this);
 		this.templateEngine = new TemplateEngine(this);
 		this.templateManager = new TemplateManager(this);
+		this.projectManager = new ProjectManager(this);
+		this.streakManager = new StreakManager(this);
 		this.sessionManager = new SessionManager(this);
 		this.reminderScheduler = new ReminderScheduler(this);
+		this.reminderManager = new ReminderManager(this);
+		this.sprintManager = new SprintManager(this);
 
 		await this.dataManager.loadData();
 		await this.templateEngine.initialize();
@@ -201,6 +218,9 @@ export default class WritingMomentumPlugin extends Plugin {
 		// Migrate old sessionHistory to new dataManager.sessions system
 		await this.migrateSessionHistory();
 
+		// Merge logs from the former purpose session tracker into the same history
+		await this.migrateSessionLogs();
+
 		// Initialize random prompts service
 		this.randomPrompts = new NetworkPromptsService(this);
 
@@ -214,6 +234,7 @@ export default class WritingMomentumPlugin extends Plugin {
 
 		// Initialize purpose-based system
 		this.toastManager = new ToastManager();
+		this.notifier = new Notifier(this, this.toastManager);
 		await this.loadPurposeData();
 
 		// Check if user needs onboarding
@@ -224,9 +245,8 @@ export default class WritingMomentumPlugin extends Plugin {
 					this.activeProfile = profile;
 					await this.savePurposeData();
 
-					// Initialize purpose session manager with profile
-					this.purposeSessionManager = new PurposeSessionManager(this);
-					this.purposeSessionManager.setActiveProfile(profile);
+					// Apply the profile's targets to new sessions
+					this.sessionManager.setActiveProfile(profile);
 
 					// Start weekly nudge scheduler
 					this.startNudgeScheduler();
@@ -237,14 +257,16 @@ export default class WritingMomentumPlugin extends Plugin {
 				})();
 			}).open();
 		} else {
-			// Existing user - initialize purpose session manager
-			this.purposeSessionManager = new PurposeSessionManager(this);
-			this.purposeSessionManager.setActiveProfile(this.activeProfile);
+			// Existing user - apply the profile's targets to new sessions
+			this.sessionManager.setActiveProfile(this.activeProfile);
 
 			// Start weekly nudge scheduler
 			this.startNudgeScheduler();
 		}
 
+		// Schedule writing reminders
+		this.reminderScheduler.start();
+
 		// Register dashboard view
 		this.registerView(
 			VIEW_TYPE_WRITING_DASHBOARD,
@@ -274,91 +296,67 @@ export default class WritingMomentumPlugin extends Plugin {
 		this.addCommand({
 			id: 'start-writing-session',
 			name: 'Start session',
-			callback: () => this.startQuickSession()
+			callback: () => this.startSessionOnCurrentFile()
 		});
 
 		this.addCommand({
-			id: 'complete-session',
-			name: 'Complete session',
-			callback: () => this.completeSession()
+			id: 'pause-session',
+			name: 'Pause session',
+			callback: () => this.sessionManager.pauseSession()
 		});
 
 		this.addCommand({
-			id: 'quick-note',
-			name: 'Create quick note',
-			callback: () => this.createQuickNote()
+			id: 'resume-session',
+			name: 'Resume session',
+			callback: () => this.sessionManager.resumeSession()
 		});
 
 		this.addCommand({
-			id: 'insert-writing-prompt',
-			name: 'Insert prompt',
-			callback: () => this.insertWritingPrompt()
+			id: 'complete-session',
+			name: 'Complete session',
+			callback: () => this.sessionManager.completeSession()
 		});
 
 		this.addCommand({
-			id: 'start-session-current-file',
-			name: 'Start session on current file',
-			callback: () => this.startSessionOnCurrentFile()
+			id: 'skip-session',
+			name: 'Skip session',
+			callback: () => this.sessionManager.skipSession()
 		});
 
 		this.addCommand({
-			id: 'stop-all-timers',
-			name: 'Stop all timers and alarms',
-			callback: () => this.stopAllTimers()
+			id: 'start-sprint',
+			name: 'Start sprint',
+			callback: () => this.openSprintModal()
 		});
 
-		// Purpose-based commands
 		this.addCommand({
-			id: 'wm-start-purpose-session',
-			name: 'Start writing session',
-			callback: () => {
-				const file = this.app.workspace.getActiveFile();
-				if (file && this.purposeSessionManager) {
-					this.purposeSessionManager.startSession(file.path);
-				} else if (!file) {
-					this.toastManager.warn('Please open a file to start a session');
-				}
-			}
+			id: 'finish-sprint',
+			name: 'Finish sprint',
+			callback: () => this.sprintManager.finish()
 		});
 
 		this.addCommand({
-			id: 'wm-pause-session',
-			name: 'Pause session',
-			callback: () => {
-				if (this.purposeSessionManager) {
-					this.purposeSessionManager.pauseSession();
-				}
-			}
+			id: 'cancel-sprint',
+			name: 'Cancel sprint',
+			callback: () => this.sprintManager.cancel()
 		});
 
 		this.addCommand({
-			id: 'wm-resume-session',
-			name: 'Resume session',
-			callback: () => {
-				if (this.purposeSessionManager) {
-					this.purposeSessionManager.resumeSession();
-				}
-			}
+			id: 'quick-note',
+			name: 'Create quick note',
+			callback: () => this.createQuickNote()
 		});
 
 		this.addCommand({
-			id: 'wm-complete-session',
-			name: 'Complete session',
-			callback: () => {
-				if (this.purposeSessionManager) {
-					this.purposeSessionManager.completeSession();
-				}
-			}
+			id: 'insert-writing-prompt',
+			name: 'Insert prompt',
+			callback: () => this.insertWritingPrompt()
 		});
 
 		this.addCommand({
-			id: 'wm-skip-session',
-			name: 'Skip session',
-			callback: () => {
-				if (this.purposeSessionManager) {
-					this.purposeSessionManager.skipSession();
-				}
-			}
+			id: 'stop-all-timers',
+			name: 'Stop all timers and alarms',
+			callback: () => this.stopAllTimers()
 		});
 
 		this.addCommand({
@@ -366,12 +364,7 @@ export default class WritingMomentumPlugin extends Plugin {
 			name: 'Show weekly summary',
 			callback: () => {
 				if (this.activeProfile) {
-					const planner = new WeeklyPlanner(
-						this.activeProfile,
-						this.sessionLogs,
-						this.toastManager
-					);
-					planner.showWeeklySummary();
+					this.createWeeklyPlanner(this.activeProfile).showWeeklySummary();
 				}
 			}
 		});
@@ -384,10 +377,7 @@ export default class WritingMomentumPlugin extends Plugin {
 					void (async () => {
 						this.activeProfile = profile;
 						await this.savePurposeData();
-
-						if (this.purposeSessionManager) {
-							this.purposeSessionManager.setActiveProfile(profile);
-						}
+						this.sessionManager.setActiveProfile(profile);
 
 						const rec = EstimationEngine.describe(profile.recommendation);
 						this.toastManager.success(`Profile updated! ${rec}`, 4000);
@@ -414,10 +404,7 @@ export default class WritingMomentumPlugin extends Plugin {
 							void (async () => {
 								this.activeProfile = profile;
 								await this.savePurposeData();
-
-								if (this.purposeSessionManager) {
-									this.purposeSessionManager.setActiveProfile(profile);
-								}
+								this.sessionManager.setActiveProfile(profile);
 
 								this.toastManager.success('Answers updated!', 3000);
 							})();
@@ -461,32 +448,57 @@ export default class WritingMomentumPlugin extends Plugin {
 			}
 		});
 
+		// Ids from earlier versions, kept so hotkeys and other plugins bound to them still work
+		this.addLegacyCommand('start-session-current-file', 'Start session on current file', () => this.startSessionOnCurrentFile());
+		this.addLegacyCommand('wm-start-purpose-session', 'Start writing session', () => this.startSessionOnCurrentFile());
+		this.addLegacyCommand('wm-pause-session', 'Pause session', () => this.sessionManager.pauseSession());
+		this.addLegacyCommand('wm-resume-session', 'Resume session', () => this.sessionManager.resumeSession());
+		this.addLegacyCommand('wm-complete-session', 'Complete session', () => this.sessionManager.completeSession());
+		this.addLegacyCommand('wm-skip-session', 'Skip session', () => this.sessionManager.skipSession());
+
 		// Add settings tab
 		this.addSettingTab(new WritingMomentumSettingTab(this.app, this));
 
-		// Listen for file changes
+		// Template notes are read once the vault has finished indexing
+		this.app.workspace.onLayoutReady(() => {
+			void this.templateManager.loadTemplateFolder();
+		});
+
+		// Auto-start and auto-attach sessions on notes matching the rules
 		this.registerEvent(
 			this.app.workspace.on('file-open', (file) => {
 				if (file && file.extension === 'md') {
-					this.checkAutoStartSession(file);
+					void this.sessionManager.handleFileOpen(file);
 				}
 			})
 		);
 
 	}
 
+	// Runs from hotkeys and by id, but stays out of the command palette next to its replacement
+	private addLegacyCommand(id: string, name: string, run: () => void) {
+		this.addCommand({
+			id,
+			name,
+			checkCallback: (checking) => {
+				if (checking) return false;
+				run();
+				return true;
+			}
+		});
+	}
+
 	onunload() {
+		// A sprint cut short by closing is dropped rather than saved
+		this.sprintManager.cancel();
+
 		// End any active session before closing
-		if (this.currentSession && this.currentSession.active) {
-			this.sessionManager.endSession();
-		}
+		this.sessionManager.cleanup();
 
 		this.stopAllTimers();
+		this.reminderScheduler.stop();
 
 		// Clean up purpose-based managers
-		if (this.purposeSessionManager) {
-			this.purposeSessionManager.destroy();
-		}
 		if (this.toastManager) {
 			this.toastManager.cleanup();
 		}
@@ -496,12 +508,6 @@ export default class WritingMomentumPlugin extends Plugin {
 	}
 
 	stopAllTimers() {
-		// Stop word count tracking interval
-		if (this.wordCountInterval) {
-			window.clearInterval(this.wordCountInterval);
-			this.wordCountInterval = null;
-		}
-
 		// Stop dashboard real-time updates
 		const dashboardViews = this.app.workspace.getLeavesOfType(VIEW_TYPE_WRITING_DASHBOARD);
 		dashboardViews.forEach(leaf => {
@@ -512,31 +518,35 @@ export default class WritingMomentumPlugin extends Plugin {
 		});
 
 		// Complete any active sessions to stop their timers
-		if (this.currentSession && this.currentSession.active) {
-			void this.completeSession();
-		}
+		this.sessionManager.completeSession();
 		// new Notice('All writing timers and alarms stopped');
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const data: PluginData = { ...(await this.loadData() as PluginData | null) };
+		STORED_DATA_KEYS.forEach(key => delete data[key]);
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
 	}
 
 	async saveSettings() {
-		await this.saveData(this.settings);
+		// Read-modify-write, like DataManager.saveData, so history and profile saved elsewhere are kept
+		const current = (await this.loadData() as PluginData | null) || {};
+		const data: PluginData = { ...this.settings };
+		STORED_DATA_KEYS.filter(key => key in current).forEach(key => {
+			data[key] = current[key];
+		});
+		await this.saveData(data);
 	}
 
 	// Purpose-based data management
 	async loadPurposeData() {
 		const data = await this.loadData() as PluginData | null;
 		this.activeProfile = data?.writingProfile || null;
-		this.sessionLogs = data?.sessionLogs || [];
 	}
 
 	async savePurposeData() {
 		const data = (await this.loadData() as PluginData | null) || {};
 		data.writingProfile = this.activeProfile;
-		data.sessionLogs = this.sessionLogs;
 		await this.saveData(data);
 	}
 
@@ -550,11 +560,7 @@ export default class WritingMomentumPlugin extends Plugin {
 		this.nudgeInterval = window.setInterval(() => {
 			if (!this.activeProfile) return;
 
-			const planner = new WeeklyPlanner(
-				this.activeProfile,
-				this.sessionLogs,
-				this.toastManager
-			);
+			const planner = this.createWeeklyPlanner(this.activeProfile);
 
 			if (planner.shouldNudge()) {
 				planner.showNudge();
@@ -564,6 +570,16 @@ export default class WritingMomentumPlugin extends Plugin {
 		this.registerInterval(this.nudgeInterval);
 	}
 
+	private createWeeklyPlanner(profile: WritingProfile): WeeklyPlanner {
+		return new WeeklyPlanner(profile, this.dataManager.getAllSessions(), this.notifier, {
+			today: this.dataManager.getToday(),
+			weekStartsOn: this.dataManager.getWeekStartsOn(),
+			onVacation: this.dataManager.isOnVacation(),
+			timeZone: this.settings.calendar.timeZone,
+			writingWindows: this.reminderManager.getWritingWindows(this.settings.calendar.timeZone)
+		});
+	}
+
 	refreshDashboard() {
 		// Find and refresh the dashboard if it's open
 		const {workspace} = this.app;
@@ -608,6 +624,24 @@ export default class WritingMomentumPlugin extends Plugin {
 		}
 	}
 
+	async migrateSessionLogs() {
+		// Merge purpose session logs into dataManager.sessions so there is one history
+		const data = await this.loadData() as PluginData | null;
+		if (!data?.sessionLogs || !Array.isArray(data.sessionLogs)) {
+			return;
+		}
+
+		if (data.sessionLogs.length > 0) {
+			const mergedCount = await this.dataManager.mergeSessionLogs(data.sessionLogs);
+			console.debug(`Merged ${mergedCount} purpose session logs into session history`);
+		}
+
+		// Re-read after the merge so the saved writingData is kept
+		const latest = (await this.loadData() as PluginData | null) || {};
+		delete latest.sessionLogs;
+		await this.saveData(latest);
+	}
+
 	getRandomPrompt(): string {
 		// Use random prompts if enabled
 		if (this.settings.randomPrompts.enabled && this.randomPrompts) {
@@ -657,181 +691,44 @@ export default class WritingMomentumPlugin extends Plugin {
 		}
 	}
 
-	// Session Management
-	startQuickSession() {
-		const activeFile = this.app.workspace.getActiveFile();
-		if (!activeFile) {
-			// new Notice('No active file to start session with');
-			return;
-		}
-
-		if (this.currentSession) {
-			// new Notice('Session already active');
-			return;
-		}
-
-		this.currentSession = {
-			id: `session-${Date.now()}`,
-			startTime: Date.now(),
-			wordCount: 0,
-			active: true,
-			paused: false,
-			totalPausedDuration: 0,
-			filePath: activeFile.path,
-			date: new Date().toISOString().split('T')[0],
-			files: [activeFile.path],
-			completed: false
-		};
-
-		// Start monitoring word count
-		this.startWordCountTracking();
-		
-		if (this.settings.enableNotifications) {
-			// new Notice('Writing session started! 📝');
-		}
-
-		this.updateStatusBar();
-		this.refreshDashboard();
-	}
-
-	async completeSession() {
-		if (!this.currentSession) {
-			// new Notice('No active session to complete');
-			return;
-		}
-
-		this.currentSession.active = false;
-		this.currentSession.endTime = Date.now();
-
-		// Save to dataManager (handles persistence)
-		await this.dataManager.addSession({...this.currentSession});
-
-		if (this.settings.enableNotifications) {
-			// const message = `Session completed! ${this.currentSession.wordCount} words in ${duration} minutes 🎉`;
-			// new Notice(message);
-		}
-
-		// Stop tracking
-		if (this.wordCountInterval) {
-			window.clearInterval(this.wordCountInterval);
-			this.wordCountInterval = null;
-		}
-
-		this.currentSession = null;
-		this.updateStatusBar();
-
-		// Refresh dashboard to show updated continuous writing progress
-		this.refreshDashboard();
-	}
-
-	pauseSession() {
-		if (!this.currentSession || !this.currentSession.active || this.currentSession.paused) {
-			// new Notice('No active session to pause');
-			return;
-		}
-
-		this.currentSession.paused = true;
-		this.currentSession.pausedTime = Date.now();
-
-		// Stop word count tracking
-		if (this.wordCountInterval) {
-			window.clearInterval(this.wordCountInterval);
-			this.wordCountInterval = null;
-		}
-
-		if (this.settings.enableNotifications) {
-			// new Notice('Session paused ⏸️');
-		}
-
-		this.updateStatusBar();
-	}
-
-	resumeSession() {
-		if (!this.currentSession || !this.currentSession.active || !this.currentSession.paused) {
-			// new Notice('No paused session to resume');
-			return;
-		}
-
-		// Add the paused duration to total
-		if (this.currentSession.pausedTime) {
-			this.currentSession.totalPausedDuration! += Date.now() - this.currentSession.pausedTime;
-		}
-
-		this.currentSession.paused = false;
-		this.currentSession.pausedTime = undefined;
-
-		// Restart word count tracking
-		this.startWordCountTracking();
-
-		if (this.settings.enableNotifications) {
-			// new Notice('Session resumed ▶️');
-		}
-
-		this.updateStatusBar();
-	}
-
-	private startWordCountTracking() {
-		if (this.wordCountInterval) {
-			window.clearInterval(this.wordCountInterval);
-		}
-
-		this.wordCountInterval = window.setInterval(() => {
-			void this.updateWordCount();
-		}, 5000);
-
-		this.registerInterval(this.wordCountInterval);
-	}
-
-	private async updateWordCount() {
-		if (!this.currentSession) return;
-
-		const file = this.app.vault.getAbstractFileByPath(this.currentSession.filePath!);
-		if (file instanceof TFile) {
-			try {
-				const content = await this.app.vault.read(file);
-				const wordCount = this.countWords(content);
-				this.currentSession.wordCount = wordCount;
-				this.updateStatusBar();
-			} catch {
-				// Failed to read file, continue silently
-			}
-		}
-	}
-
-	private countWords(text: string): number {
-		// Remove frontmatter
-		const withoutFrontmatter = text.replace(/^---[\s\S]*?---\n?/, '');
-		// Count words
-		return withoutFrontmatter.trim().split(/\s+/).filter(word => word.length > 0).length;
-	}
-
-	private updateStatusBar() {
+	updateStatusBar() {
 		if (!this.statusBarItem) return;
 
-		if (this.currentSession && this.currentSession.active) {
-			let effectiveDuration = Date.now() - this.currentSession.startTime - (this.currentSession.totalPausedDuration || 0);
-			
-			// If currently paused, don't include the current pause time
-			if (this.currentSession.paused && this.currentSession.pausedTime) {
-				effectiveDuration -= (Date.now() - this.currentSession.pausedTime);
-			}
-			
-			const duration = Math.round(effectiveDuration / 60000);
-			const pauseIndicator = this.currentSession.paused ? ' ⏸️' : '';
-			this.statusBarItem.setText(`✍️ ${this.currentSession.wordCount} words (${duration}m)${pauseIndicator}`);
+		const session = this.sessionManager.getCurrentSession();
+		if (session) {
+			const duration = Math.round(this.sessionManager.getElapsedMs() / 60000);
+			const pauseIndicator = session.autoPaused ? ' 💤' : session.paused ? ' ⏸️' : '';
+			// Progress is shown in the target's unit, or in words for time goals and untargeted sessions
+			const unit = session.targetUnit || 'words';
+			const countUnit = isCountUnit(unit) ? unit : 'words';
+			const target = session.targetCount && unit === countUnit
+				? `/${session.targetCount}`
+				: '';
+			const sprint = this.sprintManager.getState();
+			const pomodoro = this.sessionManager.getPomodoroState();
+			let countdown = sprint ? ` · ⚡ ${formatCountdown(sprint.remainingMs)}` : '';
+			if (pomodoro) countdown += ` · ${pomodoroIcon(pomodoro)} ${formatCountdown(pomodoro.remainingMs)}`;
+			this.statusBarItem.setText(`✍️ ${countIn(session, countUnit)}${target} ${UNIT_LABELS[countUnit]} (${duration}m)${pauseIndicator}${countdown}${this.getQuotaStatus()}`);
+			this.statusBarItem.toggleClass('wm-pomodoro-break', !!pomodoro && pomodoro.phase !== 'focus');
 		} else {
-			this.statusBarItem.setText('📝 ready to write');
+			this.statusBarItem.setText(`📝 ready to write${this.getQuotaStatus()}`);
+			this.statusBarItem.removeClass('wm-pomodoro-break');
 		}
 	}
 
-	private checkAutoStartSession(file: TFile) {
-		// Auto-start session logic disabled to prevent intrusive notices
-		return;
+	// Words still needed today for the nearest project deadline
+	private getQuotaStatus(): string {
+		const next = this.projectManager.getNextDeadline();
+		if (!next || !next.plan.isWritingDay) return '';
+
+		return next.plan.neededToday > 0
+			? ` · 🎯 ${next.plan.neededToday.toLocaleString()} needed today`
+			: ' · ✅ quota met';
 	}
 
 	async createQuickNote() {
 		const now = new Date();
-		const dateStr = now.toISOString().split('T')[0];
+		const dateStr = this.dataManager.getToday();
 		// Use safe time format without colons for file names
 		const timeStr = now.toLocaleTimeString('en-US', { 
 			hour: '2-digit', 
@@ -862,13 +759,25 @@ export default class WritingMomentumPlugin extends Plugin {
 			}
 			
 			// Auto-start session after a brief delay
-			setTimeout(() => this.startQuickSession(), 100);
+			setTimeout(() => this.startSessionOnCurrentFile(), 100);
 		} catch (error) {
 			new Notice(`Failed to create quick note: ${error.message}`);
 		}
 	}
 
-	startSessionOnCurrentFile() {
+	openSprintModal() {
+		new SprintModal(this.app, (durationMin, targetWords) => this.startSprint(durationMin, targetWords)).open();
+	}
+
+	startSprint(durationMin: number, targetWords?: number) {
+		try {
+			this.sprintManager.start(durationMin, targetWords);
+		} catch (error) {
+			new Notice(`Error: ${error.message}`);
+		}
+	}
+
+	startSessionOnCurrentFile(templateTarget?: number) {
 		// Get the currently active file
 		const activeFile = this.app.workspace.getActiveFile();
 
@@ -878,56 +787,19 @@ export default class WritingMomentumPlugin extends Plugin {
 		}
 
 		// Check if there's already an active session
-		if (this.currentSession && this.currentSession.active) {
+		if (this.sessionManager.getCurrentSession()) {
 			new Notice('A session is already active. Please complete or end it first.');
 			return;
 		}
 
 		try {
-			// Get goal target for the session
-			let targetWordCount = 0;
-			if (this.activeProfile && this.activeProfile.recommendation) {
-				const rec = this.activeProfile.recommendation;
-				if (rec.target.type === 'words') {
-					targetWordCount = rec.target.value;
-				}
-			} else if (this.settings.streakRule.mode === 'daily') {
+			// A template's own target comes first; without a profile, fall back to the daily streak target
+			let targetWordCount = templateTarget;
+			if (targetWordCount === undefined && !this.activeProfile && this.settings.streakRule.mode === 'daily') {
 				targetWordCount = this.settings.streakRule.target;
 			}
 
-			// Start a new session on the current file
-			const sessionId = `session-${Date.now()}`;
-			const today = new Date().toISOString().split('T')[0];
-
-			this.currentSession = {
-				id: sessionId,
-				date: today,
-				startTime: Date.now(),
-				wordCount: 0,
-				targetCount: targetWordCount > 0 ? targetWordCount : undefined,
-				files: [activeFile.path],
-				completed: false,
-				active: true,
-				paused: false,
-				totalPausedDuration: 0,
-				filePath: activeFile.path
-			};
-
-			// Start word count monitoring (SessionManager will save to dataManager when session ends)
-			this.sessionManager.startSession(activeFile.path, undefined, targetWordCount > 0 ? targetWordCount : undefined);
-
-			// Show notification
-			if (this.settings.ui.notifications) {
-				const targetMsg = targetWordCount > 0 ? ` Target: ${targetWordCount} words` : '';
-				new Notice(`Writing session started on "${activeFile.basename}"!${targetMsg}`);
-			}
-
-			// Refresh dashboard if open
-			this.app.workspace.getLeavesOfType('writing-momentum-dashboard').forEach(leaf => {
-				if (leaf.view instanceof ItemView && 'refresh' in leaf.view && typeof leaf.view.refresh === 'function') {
-					leaf.view.refresh();
-				}
-			});
+			this.sessionManager.startSession(activeFile.path, undefined, targetWordCount);
 		} catch (error) {
 			new Notice(`Failed to start session: ${error.message}`);
 		}
@@ -935,16 +807,20 @@ export default class WritingMomentumPlugin extends Plugin {
 
 	async createTemplateNoteAndStartSession() {
 		// Check if we should use active template directly
-		let selectedTemplate;
+		let selectedTemplate: { id?: string; name: string; title: string; template: string; target?: number; filePaths?: FilePathRule; extends?: string } | null;
 
 		if (this.settings.alwaysUseActiveTemplate) {
 			// Use active template without showing dialog
 			const activeTemplate = this.templateManager.getActiveTemplate();
 			if (activeTemplate) {
 				selectedTemplate = {
+					id: activeTemplate.id,
 					name: activeTemplate.name,
 					title: activeTemplate.titlePattern,
-					template: activeTemplate.content
+					template: activeTemplate.content,
+					target: activeTemplate.target,
+					filePaths: activeTemplate.filePaths,
+					extends: activeTemplate.extends
 				};
 			} else {
 				// No active template set, show dialog
@@ -962,34 +838,35 @@ export default class WritingMomentumPlugin extends Plugin {
 		}
 
 		try {
-			// Process the title pattern
-			const title = this.processTemplate(selectedTemplate.title);
-
-			// Process the template content
-			const content = this.processTemplate(selectedTemplate.template, title);
-
-			// Create safe file name (remove invalid characters)
-			const safeFileName = this.sanitizeFileName(title) + '.md';
+			const source = {
+				id: selectedTemplate.id,
+				name: selectedTemplate.name,
+				titlePattern: selectedTemplate.title,
+				content: selectedTemplate.template,
+				filePaths: selectedTemplate.filePaths,
+				extends: selectedTemplate.extends
+			};
 
-			// Check if file already exists, if so append a number
-			let uniqueFileName = safeFileName;
-			let counter = 1;
-			while (this.app.vault.getAbstractFileByPath(uniqueFileName)) {
-				const baseName = safeFileName.replace('.md', '');
-				uniqueFileName = `${baseName} (${counter}).md`;
-				counter++;
+			// Ask for any values the template needs
+			const variables = await this.templateEngine.collectVariables(source, {
+				random_prompt: () => this.getRandomPrompt()
+			});
+			if (!variables) {
+				return; // User cancelled
 			}
 
-			// Create the file
-			const file = await this.app.vault.create(uniqueFileName, content);
+			// Create the file in the template's folder; an existing note gets a numbered sibling by default
+			const note = this.templateEngine.renderNote(source, variables);
+			const file = await this.templateEngine.createNoteFile(note, source);
 
 			// Open the file
 			const leaf = this.app.workspace.getLeaf();
 			await leaf.openFile(file);
 
 			// Start the session after a brief delay to ensure file is active
+			const target = selectedTemplate.target;
 			setTimeout(() => {
-				this.startQuickSession();
+				this.startSessionOnCurrentFile(target);
 			}, 100);
 
 			if (this.settings.enableNotifications) {
@@ -1000,36 +877,6 @@ export default class WritingMomentumPlugin extends Plugin {
 		}
 	}
 
-	private processTemplate(template: string, customTitle?: string): string {
-		const now = new Date();
-		const dateStr = now.toISOString().split('T')[0];
-		const timeStr = now.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
-		const weekdayStr = now.toLocaleDateString('en-US', { weekday: 'long' });
-		const randomPrompt = this.getRandomPrompt();
-
-		let processed = template
-			.replace(/\{\{date\}\}/g, dateStr)
-			.replace(/\{\{time\}\}/g, timeStr)
-			.replace(/\{\{weekday\}\}/g, weekdayStr)
-			.replace(/\{\{vault\}\}/g, this.app.vault.getName())
-			.replace(/\{\{random_prompt\}\}/g, randomPrompt);
-
-		// Handle title - use custom title if provided, otherwise use processed title pattern
-		if (customTitle) {
-			processed = processed.replace(/\{\{title\}\}/g, customTitle);
-		} else {
-			// If no custom title and we're processing the title pattern itself, use a default
-			processed = processed.replace(/\{\{title\}\}/g, 'Writing Session');
-		}
-
-		return processed;
-	}
-
-	private sanitizeFileName(fileName: string): string {
-		// Remove or replace invalid file name characters
-		return fileName.replace(/[<>:"/\\|?*]/g, '-').replace(/\s+/g, ' ').trim();
-	}
-
 	private async showTemplateSelectionDialog(): Promise<{name: string, title: string, template: string} | null> {
 		return new Promise((resolve) => {
 			const templates = this.getAvailableTemplates();
@@ -1220,6 +1067,24 @@ Write continuously for your target time. Don't worry about grammar, structure, o
 // Dashboard View
 const VIEW_TYPE_WRITING_DASHBOARD = 'writing-momentum-dashboard';
 
+// What a streak of each period mode is counted in
+const PERIOD_UNITS: Record<PeriodMode, string> = {
+	daily: 'day',
+	weekly: 'week',
+	monthly: 'month',
+	rolling: 'window'
+};
+
+function pomodoroIcon(state: PomodoroState): string {
+	if (state.paused) return '⏸️';
+	return state.phase === 'focus' ? '🍅' : '☕';
+}
+
+// "Focus · 2 done"
+function pomodoroLabel(state: PomodoroState): string {
+	return `${PHASE_LABELS[state.phase]} · ${state.completed} done`;
+}
+
 class WritingDashboard extends ItemView {
 	private plugin: WritingMomentumPlugin;
 	private updateInterval: number | null = null;
@@ -1269,15 +1134,11 @@ class WritingDashboard extends ItemView {
 
 	private updateRealTimeElements() {
 		// Update current session timer if active
+		const session = this.plugin.sessionManager.getCurrentSession();
 		const timerElement = this.containerEl.querySelector('.session-timer');
-		if (timerElement && this.plugin.currentSession && this.plugin.currentSession.active) {
-			const session = this.plugin.currentSession;
-
-			// Calculate effective duration (excluding paused time)
-			let effectiveDuration = Date.now() - session.startTime - (session.totalPausedDuration || 0);
-			if (session.paused && session.pausedTime) {
-				effectiveDuration -= (Date.now() - session.pausedTime);
-			}
+		if (timerElement && session) {
+			// Effective duration (excluding paused time)
+			const effectiveDuration = this.plugin.sessionManager.getElapsedMs();
 
 			const hours = Math.floor(effectiveDuration / 3600000);
 			const minutes = Math.floor((effectiveDuration % 3600000) / 60000);
@@ -1292,64 +1153,37 @@ class WritingDashboard extends ItemView {
 
 		// Update word count if needed
 		const wordCountElement = this.containerEl.querySelector('.session-words');
-		if (wordCountElement && this.plugin.currentSession && this.plugin.currentSession.active) {
-			wordCountElement.textContent = this.plugin.currentSession.wordCount.toString();
+		if (wordCountElement && session) {
+			wordCountElement.textContent = session.wordCount.toString();
 		}
 
-		// Update today's goal progress in real-time
-		this.updateGoalProgress();
-	}
-
-	private updateGoalProgress() {
-		// Determine goal type and target from active profile or fallback to streakRule
-		let goalType: 'words' | 'minutes' = 'words';
-		let dailyTarget = 0;
+		const editedElement = this.containerEl.querySelector('.session-edited');
+		if (editedElement && session) {
+			editedElement.textContent = ((session.wordsChanged || 0) + (session.wordsDeleted || 0)).toString();
+		}
 
-		if (this.plugin.activeProfile && this.plugin.activeProfile.recommendation) {
-			const rec = this.plugin.activeProfile.recommendation;
-			goalType = rec.target.type;
-			dailyTarget = rec.target.value;
-		} else if (this.plugin.settings.streakRule.mode === 'daily') {
-			goalType = 'words';
-			dailyTarget = this.plugin.settings.streakRule.target;
-		} else {
-			goalType = 'words';
-			dailyTarget = Math.round(this.plugin.settings.streakRule.target / 7);
+		const pomodoro = this.plugin.sessionManager.getPomodoroState();
+		const pomodoroElement = this.containerEl.querySelector('.session-pomodoro');
+		if (pomodoroElement && pomodoro) {
+			pomodoroElement.textContent = formatCountdown(pomodoro.remainingMs);
 		}
 
-		// Get today's progress
-		const today = new Date().toISOString().split('T')[0];
-		let currentProgress = 0;
+		const sprint = this.plugin.sprintManager.getState();
+		const sprintElement = this.containerEl.querySelector<HTMLElement>('.sprint-panel');
+		if (sprintElement && sprint) {
+			this.updateSprintPanel(sprintElement, sprint);
+		}
 
-		if (goalType === 'words') {
-			// Calculate today's word count (including active session)
-			const allSessions = this.plugin.dataManager.getAllSessions();
-			currentProgress = allSessions
-				.filter(session => session.date === today && session.endTime)
-				.reduce((sum, session) => sum + session.wordCount, 0);
+		// Update today's goal progress in real-time
+		this.updateGoalProgress();
+	}
 
-			// Add current active session if exists
-			if (this.plugin.currentSession && this.plugin.currentSession.active && this.plugin.currentSession.date === today) {
-				currentProgress += this.plugin.currentSession.wordCount || 0;
-			}
-		} else {
-			// Calculate today's writing time in minutes (including active session)
-			const allSessions = this.plugin.dataManager.getAllSessions();
-			let totalMs = allSessions
-				.filter(session => session.date === today && session.endTime && session.startTime)
-				.reduce((sum, session) => sum + (session.endTime! - session.startTime), 0);
-
-			// Add current active session if exists
-			if (this.plugin.currentSession && this.plugin.currentSession.active && this.plugin.currentSession.date === today) {
-				let effectiveDuration = Date.now() - this.plugin.currentSession.startTime - (this.plugin.currentSession.totalPausedDuration || 0);
-				if (this.plugin.currentSession.paused && this.plugin.currentSession.pausedTime) {
-					effectiveDuration -= (Date.now() - this.plugin.currentSession.pausedTime);
-				}
-				totalMs += effectiveDuration;
-			}
+	private updateGoalProgress() {
+		// Goal from the active profile, or the streak rule without one
+		const { unit: goalType, target: dailyTarget } = this.plugin.dataManager.getDailyGoal();
 
-			currentProgress = Math.floor(totalMs / 60000); // Convert to minutes
-		}
+		// Today's progress, including the active session
+		const currentProgress = this.plugin.dataManager.getTodaysGoalProgress(goalType);
 
 		// Calculate percentage
 		const percentage = Math.min((currentProgress / dailyTarget) * 100, 100);
@@ -1387,13 +1221,18 @@ class WritingDashboard extends ItemView {
 				});
 			} else {
 				const remaining = dailyTarget - currentProgress;
-				const unit = goalType === 'words' ? 'words' : 'minutes';
+				const unit = UNIT_LABELS[goalType];
 				statusElement.createEl('span', {
 					text: `${remaining} ${unit} to go`,
 					cls: 'goal-status-remaining'
 				});
 			}
 		}
+
+		const deadlinesElement = this.containerEl.querySelector('.deadline-goals');
+		if (deadlinesElement) {
+			this.renderDeadlineGoals(deadlinesElement);
+		}
 	}
 
 	render() {
@@ -1409,36 +1248,135 @@ class WritingDashboard extends ItemView {
 		// Header
 		const header = container.createEl('div', { cls: 'dashboard-header' });
 		header.createEl('h2', { text: 'Writing dashboard', cls: 'dashboard-title' });
+		this.renderNextReminder(header);
 
 		// Current Session
 		this.renderCurrentSession(container);
 
+		// Sprint launcher and past sprints
+		this.renderSprints(container);
+
 		// Only show Writing Mode when no session is active
-		const hasActiveSession = this.plugin.currentSession && this.plugin.currentSession.active;
+		const hasActiveSession = this.plugin.sessionManager.getCurrentSession() !== null;
 
 		if (!hasActiveSession) {
 			this.renderWritingMode(container);
 		}
 
+		// Streak cards
+		this.renderStreak(container);
+
+		// Per-project progress
+		this.renderProjects(container);
+
 		// Writing Volume Charts
 		this.renderWritingVolumeChart(container);
 	}
 
+	private renderNextReminder(container: Element) {
+		if (this.plugin.dataManager.isOnVacation()) {
+			container.createEl('div', { text: '⏰ reminders paused for vacation', cls: 'dashboard-next-reminder' });
+			return;
+		}
+
+		const next = this.plugin.reminderScheduler.getNextReminder();
+		if (!next) return;
+
+		const at = new Date(next.at);
+		const time = at.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+		const days = Math.round((new Date(at).setHours(0, 0, 0, 0) - new Date().setHours(0, 0, 0, 0)) / 86400000);
+		const day = days === 0 ? 'today' : days === 1 ? 'tomorrow' : at.toLocaleDateString('en-US', { weekday: 'long' });
+
+		container.createEl('div', {
+			text: `⏰ next reminder ${day} at ${time}`,
+			cls: 'dashboard-next-reminder'
+		});
+	}
+
+	private renderStreak(container: Element) {
+		const streaksEl = container.createEl('div', { cls: 'dashboard-section streaks-section' });
+		streaksEl.createEl('h3', { text: '🔥 streaks' });
+		const cardsEl = streaksEl.createEl('div', { cls: 'streak-cards' });
+
+		for (const { definition, data } of this.plugin.streakManager.getAllStatuses()) {
+			const cardEl = cardsEl.createEl('div', { cls: 'streak-card' });
+			if (data.current === 0) {
+				cardEl.addClass('is-inactive');
+			}
+
+			cardEl.createEl('div', { text: definition.name, cls: 'streak-card-name' });
+			cardEl.createEl('div', { text: this.plugin.streakManager.describe(definition), cls: 'streak-card-rule' });
+
+			const period = PERIOD_UNITS[definition.mode];
+			const countEl = cardEl.createEl('div', { cls: 'streak-card-count' });
+			countEl.createEl('span', { text: String(data.current), cls: 'streak-card-value' });
+			countEl.createEl('span', { text: data.current === 1 ? period : `${period}s`, cls: 'streak-card-unit' });
+
+			// Days of the current week that counted
+			const weekEl = cardEl.createEl('div', { cls: 'streak-card-week' });
+			data.weeklyProgress.forEach(done => {
+				const dayEl = weekEl.createEl('span', { cls: 'streak-card-day' });
+				if (done) {
+					dayEl.addClass('is-done');
+				}
+			});
+
+			const details = [`Best: ${data.longest}`];
+			if (data.freezes) {
+				details.push(`❄️ ${data.freezes}`);
+			}
+			cardEl.createEl('div', { text: details.join(' · '), cls: 'streak-card-details' });
+		}
+	}
+
+	private renderProjects(container: Element) {
+		const projects = this.plugin.projectManager.getAllProgress();
+		if (projects.length === 0) return;
+
+		const projectsEl = container.createEl('div', { cls: 'dashboard-section projects-section' });
+		projectsEl.createEl('h3', { text: '📚 projects' });
+
+		for (const { project, words, percent, sessionsThisWeek, daysLeft } of projects) {
+			const projectEl = projectsEl.createEl('div', { cls: 'project-progress' });
+
+			const headerEl = projectEl.createEl('div', { cls: 'project-progress-header' });
+			headerEl.createEl('span', { text: project.name, cls: 'project-name' });
+			headerEl.createEl('span', {
+				text: `${words.toLocaleString()} / ${project.targetWords.toLocaleString()} words`,
+				cls: 'project-count'
+			});
+
+			const barEl = projectEl.createEl('div', { cls: 'project-progress-bar' });
+			const fillEl = barEl.createEl('div', { cls: 'project-progress-fill' });
+			fillEl.style.width = `${percent}%`;
+			if (percent >= 100) {
+				fillEl.addClass('is-complete');
+			}
+
+			const details: string[] = [`${Math.round(percent)}%`];
+			if (project.sessionsPerWeek) {
+				details.push(`${sessionsThisWeek}/${project.sessionsPerWeek} sessions this week`);
+			}
+			if (daysLeft !== null) {
+				details.push(daysLeft >= 0 ? `${daysLeft} days left` : `${-daysLeft} days past deadline`);
+			}
+			projectEl.createEl('div', { text: details.join(' · '), cls: 'project-details' });
+		}
+	}
+
 	private renderCurrentSession(container: Element) {
 		const sessionEl = container.createEl('div', { cls: 'dashboard-section' });
 		
-		if (this.plugin.currentSession && this.plugin.currentSession.active) {
-			const session = this.plugin.currentSession;
-			
-			// Calculate effective duration (excluding paused time)
-			let effectiveDuration = Date.now() - session.startTime - (session.totalPausedDuration || 0);
-			if (session.paused && session.pausedTime) {
-				effectiveDuration -= (Date.now() - session.pausedTime);
-			}
+		const session = this.plugin.sessionManager.getCurrentSession();
+		if (session) {
+			// Effective duration (excluding paused time)
+			const effectiveDuration = this.plugin.sessionManager.getElapsedMs();
 			
 			// Add pause indicator to header
 			const sessionHeader = sessionEl.createEl('h3', {
-				text: session.paused ? '🎯 Current session (paused)' : '🎯 Current session'
+				text: session.autoPaused
+					? '🎯 Current session (idle, resumes when you type)'
+					: session.paused ? '🎯 Current session (paused)' : '🎯 Current session'
 			});
 			if (session.paused) {
 				sessionHeader.addClass('paused-session');
@@ -1451,6 +1389,14 @@ class WritingDashboard extends ItemView {
 			wordEl.createEl('span', { text: session.wordCount.toString(), cls: 'stat-value session-words' });
 			wordEl.createEl('span', { text: 'Words', cls: 'stat-label' });
 
+			const editedEl = statsEl.createEl('div', { cls: 'stat-card' });
+			editedEl.createEl('span', { text: '✏️', cls: 'stat-icon' });
+			editedEl.createEl('span', {
+				text: ((session.wordsChanged || 0) + (session.wordsDeleted || 0)).toString(),
+				cls: 'stat-value session-edited'
+			});
+			editedEl.createEl('span', { text: 'Edited', cls: 'stat-label' });
+
 			const timeEl = statsEl.createEl('div', { cls: 'stat-card' });
 			timeEl.createEl('span', { text: '⏱️', cls: 'stat-icon' });
 			// Calculate initial timer display
@@ -1462,9 +1408,23 @@ class WritingDashboard extends ItemView {
 				: `${minutes}:${seconds.toString().padStart(2, '0')}`;
 			timeEl.createEl('span', { text: timeString, cls: 'stat-value session-timer' });
 			timeEl.createEl('span', { text: 'Time', cls: 'stat-label' });
+
+			const pomodoro = this.plugin.sessionManager.getPomodoroState();
+			if (pomodoro) {
+				const pomodoroEl = statsEl.createEl('div', { cls: 'stat-card pomodoro-card' });
+				pomodoroEl.toggleClass('is-break', pomodoro.phase !== 'focus');
+				pomodoroEl.createEl('span', { text: pomodoroIcon(pomodoro), cls: 'stat-icon' });
+				pomodoroEl.createEl('span', { text: formatCountdown(pomodoro.remainingMs), cls: 'stat-value session-pomodoro' });
+				pomodoroEl.createEl('span', { text: pomodoroLabel(pomodoro), cls: 'stat-label session-pomodoro-label' });
+			}
 			
 			const fileEl = statsEl.createEl('div', { cls: 'current-file' });
 			fileEl.createEl('span', { text: '📄 ' + (session.filePath?.split('/').pop() || 'Unknown file') });
+
+			const sprint = this.plugin.sprintManager.getState();
+			if (sprint) {
+				this.renderSprintPanel(sessionEl, sprint);
+			}
 			
 			// Writing inspiration section
 			const inspirationEl = sessionEl.createEl('div', { cls: 'writing-inspiration' });
@@ -1472,13 +1432,32 @@ class WritingDashboard extends ItemView {
 			
 			const actionsEl = sessionEl.createEl('div', { cls: 'session-actions' });
 			
+			const pauseBtn = actionsEl.createEl('button', {
+				text: session.paused ? '▶️ resume' : '⏸️ pause',
+				cls: 'session-btn pause-btn'
+			});
+			pauseBtn.onclick = () => {
+				if (session.paused) {
+					this.plugin.sessionManager.resumeSession();
+				} else {
+					this.plugin.sessionManager.pauseSession();
+				}
+			};
+
 			const completeBtn = actionsEl.createEl('button', {
 				text: '✅ complete session',
 				cls: 'session-btn complete-btn'
 			});
 			completeBtn.onclick = () => {
-				void this.plugin.completeSession();
-				this.render();
+				this.plugin.sessionManager.completeSession();
+			};
+
+			const skipBtn = actionsEl.createEl('button', {
+				text: '⏭️ skip',
+				cls: 'session-btn skip-btn'
+			});
+			skipBtn.onclick = () => {
+				this.plugin.sessionManager.skipSession();
 			};
 		} else {
 			sessionEl.createEl('p', {
@@ -1488,6 +1467,80 @@ class WritingDashboard extends ItemView {
 		}
 	}
 
+	private renderSprintPanel(container: Element, sprint: SprintState) {
+		const panelEl = container.createEl('div', { cls: 'sprint-panel' });
+		panelEl.createEl('h4', { text: `⚡ ${sprint.durationMin} minute sprint` });
+
+		const statsEl = panelEl.createEl('div', { cls: 'sprint-stats' });
+		statsEl.createEl('span', { cls: 'sprint-countdown' });
+		statsEl.createEl('span', { cls: 'sprint-words' });
+		statsEl.createEl('span', { cls: 'sprint-wpm' });
+		panelEl.createEl('div', { cls: 'sprint-sparkline' });
+		this.updateSprintPanel(panelEl, sprint);
+
+		const actionsEl = panelEl.createEl('div', { cls: 'session-actions' });
+		const finishBtn = actionsEl.createEl('button', { text: '🏁 finish now', cls: 'session-btn complete-btn' });
+		finishBtn.onclick = () => {
+			void this.plugin.sprintManager.finish();
+		};
+		const cancelBtn = actionsEl.createEl('button', { text: '✖️ cancel sprint', cls: 'session-btn skip-btn' });
+		cancelBtn.onclick = () => {
+			this.plugin.sprintManager.cancel();
+		};
+	}
+
+	private updateSprintPanel(panelEl: HTMLElement, sprint: SprintState) {
+		const target = sprint.targetWords ? ` / ${sprint.targetWords}` : '';
+		panelEl.querySelector('.sprint-countdown')?.setText(`⏳ ${formatCountdown(sprint.remainingMs)}`);
+		panelEl.querySelector('.sprint-words')?.setText(`📝 ${sprint.words}${target} words`);
+		panelEl.querySelector('.sprint-wpm')?.setText(`⚡ ${sprint.wpm} wpm`);
+
+		const sparklineEl = panelEl.querySelector<HTMLElement>('.sprint-sparkline');
+		if (sparklineEl) {
+			renderSparkline(sparklineEl, sprint.samples);
+		}
+	}
+
+	private renderSprints(container: Element) {
+		const running = this.plugin.sprintManager.getState() !== null;
+		const sprints = this.plugin.dataManager.getSprints();
+		if (running && sprints.length === 0) return;
+
+		const sprintsEl = container.createEl('div', { cls: 'dashboard-section sprints-section' });
+		sprintsEl.createEl('h3', { text: '⚡ sprints' });
+
+		if (!running) {
+			const buttonsEl = sprintsEl.createEl('div', { cls: 'action-buttons' });
+			for (const minutes of SPRINT_DURATIONS) {
+				const sprintBtn = buttonsEl.createEl('button', { text: `${minutes} min`, cls: 'action-btn sprint-btn' });
+				sprintBtn.onclick = () => this.plugin.startSprint(minutes);
+			}
+			const targetBtn = buttonsEl.createEl('button', { text: '🎯 with a target', cls: 'action-btn sprint-btn' });
+			targetBtn.onclick = () => this.plugin.openSprintModal();
+		}
+
+		if (sprints.length === 0) return;
+
+		// Words in the most recent sprints, oldest first
+		const recent = sprints.slice(-12);
+		const maxWords = Math.max(1, ...recent.map(sprint => sprint.words));
+		const historyEl = sprintsEl.createEl('div', { cls: 'sprint-history' });
+		for (const sprint of recent) {
+			const barEl = historyEl.createEl('div', { cls: 'sprint-bar' });
+			barEl.toggleClass('is-partial', !sprint.completed);
+			barEl.style.height = `${Math.max(4, (sprint.words / maxWords) * 100)}%`;
+			barEl.title = `${sprint.date} · ${sprint.durationMin} min · ${sprint.words} words · ${sprint.wpm} wpm`;
+		}
+
+		const bests = SPRINT_DURATIONS
+			.map(minutes => ({ minutes, best: this.plugin.sprintManager.getPersonalBests(minutes) }))
+			.filter((entry): entry is { minutes: number; best: PersonalBests } => entry.best !== null)
+			.map(({ minutes, best }) => `${minutes} min: ${best.words} words, ${best.wpm} wpm`);
+		if (bests.length > 0) {
+			sprintsEl.createEl('div', { text: `🏆 bests · ${bests.join(' · ')}`, cls: 'sprint-bests' });
+		}
+	}
+
 	private renderWritingInspiration(container: Element) {
 		const promptCard = container.createEl('div', { cls: 'prompt-card' });
 		
@@ -1608,65 +1661,12 @@ class WritingDashboard extends ItemView {
 	private renderTodaysGoal(container: Element) {
 		const goalEl = container.createEl('div', { cls: 'todays-goal' });
 
-		// Determine goal type and target from active profile or fallback to streakRule
-		let goalType: 'words' | 'minutes' = 'words';
-		let dailyTarget = 0;
-
-		if (this.plugin.activeProfile && this.plugin.activeProfile.recommendation) {
-			const rec = this.plugin.activeProfile.recommendation;
-			goalType = rec.target.type;
-
-			// Calculate daily target from weekly target
-			// If sessionsPerWeek is set, divide by that; otherwise assume 5 days per week
-			// const sessionsPerWeek = rec.sessionsPerWeek || 5;
-			dailyTarget = rec.target.value;
-		} else if (this.plugin.settings.streakRule.mode === 'daily') {
-			// Fallback to old system - assume it's words per day
-			goalType = 'words';
-			dailyTarget = this.plugin.settings.streakRule.target;
-		} else {
-			// Weekly mode - divide by 7 for daily average
-			goalType = 'words';
-			dailyTarget = Math.round(this.plugin.settings.streakRule.target / 7);
-		}
-
-		// Get today's progress
-		const today = new Date().toISOString().split('T')[0];
-		let currentProgress = 0;
-		let currentProgressDisplay = '';
-
-		if (goalType === 'words') {
-			// Calculate today's word count (including active session)
-			const allSessions = this.plugin.dataManager.getAllSessions();
-			currentProgress = allSessions
-				.filter(session => session.date === today && session.endTime)
-				.reduce((sum, session) => sum + session.wordCount, 0);
-
-			// Add current active session if exists
-			if (this.plugin.currentSession && this.plugin.currentSession.active && this.plugin.currentSession.date === today) {
-				currentProgress += this.plugin.currentSession.wordCount || 0;
-			}
-
-			currentProgressDisplay = currentProgress.toString();
-		} else {
-			// Calculate today's writing time in minutes (including active session)
-			const allSessions = this.plugin.dataManager.getAllSessions();
-			let totalMs = allSessions
-				.filter(session => session.date === today && session.endTime && session.startTime)
-				.reduce((sum, session) => sum + (session.endTime! - session.startTime), 0);
-
-			// Add current active session if exists
-			if (this.plugin.currentSession && this.plugin.currentSession.active && this.plugin.currentSession.date === today) {
-				let effectiveDuration = Date.now() - this.plugin.currentSession.startTime - (this.plugin.currentSession.totalPausedDuration || 0);
-				if (this.plugin.currentSession.paused && this.plugin.currentSession.pausedTime) {
-					effectiveDuration -= (Date.now() - this.plugin.currentSession.pausedTime);
-				}
-				totalMs += effectiveDuration;
-			}
+		// Goal from the active profile, or the streak rule without one
+		const { unit: goalType, target: dailyTarget } = this.plugin.dataManager.getDailyGoal();
 
-			currentProgress = Math.floor(totalMs / 60000); // Convert to minutes
-			currentProgressDisplay = currentProgress.toString();
-		}
+		// Today's progress, including the active session
+		const currentProgress = this.plugin.dataManager.getTodaysGoalProgress(goalType);
+		const currentProgressDisplay = currentProgress.toString();
 
 		// Calculate percentage
 		const percentage = Math.min((currentProgress / dailyTarget) * 100, 100);
@@ -1720,7 +1720,7 @@ class WritingDashboard extends ItemView {
 			cls: 'goal-current-words goal-current-value'
 		});
 		centerText.createEl('div', {
-			text: `/ ${dailyTarget} ${goalType === 'words' ? 'words' : 'min'}`,
+			text: `/ ${dailyTarget} ${goalType === 'minutes' ? 'min' : UNIT_LABELS[goalType]}`,
 			cls: 'goal-target-words'
 		});
 		centerText.createEl('div', {
@@ -1737,12 +1737,50 @@ class WritingDashboard extends ItemView {
 			});
 		} else {
 			const remaining = dailyTarget - currentProgress;
-			const unit = goalType === 'words' ? 'words' : 'minutes';
+			const unit = UNIT_LABELS[goalType];
 			statusEl.createEl('span', {
 				text: `${remaining} ${unit} to go`,
 				cls: 'goal-status-remaining'
 			});
 		}
+
+		// Deadline quotas
+		const deadlinesEl = goalEl.createEl('div', { cls: 'deadline-goals' });
+		this.renderDeadlineGoals(deadlinesEl);
+	}
+
+	private renderDeadlineGoals(container: Element) {
+		container.empty();
+
+		for (const project of this.plugin.projectManager.getAllProjects()) {
+			const plan = this.plugin.projectManager.getDeadlinePlan(project);
+			if (!plan) continue;
+
+			const itemEl = container.createEl('div', { cls: 'deadline-goal' });
+			itemEl.createEl('div', { text: `${project.name} · due ${project.deadline}`, cls: 'deadline-goal-name' });
+
+			let needed: string;
+			if (plan.remainingWords === 0) {
+				needed = '🎉 target reached';
+			} else if (!plan.isWritingDay) {
+				needed = `Rest day · ${plan.dailyQuota.toLocaleString()} words per writing day`;
+			} else if (plan.neededToday > 0) {
+				needed = `${plan.neededToday.toLocaleString()} words needed today (quota ${plan.dailyQuota.toLocaleString()})`;
+			} else {
+				needed = `✅ today's quota of ${plan.dailyQuota.toLocaleString()} met`;
+			}
+			itemEl.createEl('div', { text: needed, cls: 'deadline-goal-needed' });
+
+			if (plan.remainingWords > 0) {
+				const finish = plan.projectedFinish
+					? `Projected finish ${plan.projectedFinish} ${plan.onTrack ? '(on track)' : '(behind)'}`
+					: 'Write a few sessions to project a finish date';
+				const finishEl = itemEl.createEl('div', { text: finish, cls: 'deadline-goal-projection' });
+				if (plan.projectedFinish && !plan.onTrack) {
+					finishEl.addClass('is-behind');
+				}
+			}
+		}
 	}
 
 	private renderContributionHeatmap(container: Element) {
@@ -1787,9 +1825,10 @@ class WritingDashboard extends ItemView {
 
 		// Day labels (M, W, F)
 		const dayLabels = gridWrapper.createEl('div', { cls: 'heatmap-day-labels' });
-		['Mon', 'Wed', 'Fri'].forEach((day, idx) => {
+		const weekStartsOn = this.plugin.dataManager.getWeekStartsOn();
+		[[1, 'Mon'], [3, 'Wed'], [5, 'Fri']].forEach(([dayOfWeek, day]: [number, string]) => {
 			const label = dayLabels.createEl('div', { cls: 'day-label' });
-			label.style.gridRow = (idx * 2 + 2).toString();
+			label.style.gridRow = ((dayOfWeek - weekStartsOn + 7) % 7 + 1).toString();
 			label.setText(day);
 		});
 
@@ -1842,32 +1881,31 @@ class WritingDashboard extends ItemView {
 
 	private getHeatmapData() {
 		const data = [];
-		const today = new Date();
+		const today = this.plugin.dataManager.getToday();
 
 		// Get all sessions from dataManager
 		const allSessions = this.plugin.dataManager.getAllSessions();
 
 		// Get last 84 days (12 weeks)
 		for (let i = 83; i >= 0; i--) {
-			const date = new Date(today);
-			date.setDate(today.getDate() - i);
-			const dateStr = date.toISOString().split('T')[0];
+			const dateStr = addDays(today, -i);
 
 			const dayWords = allSessions
 				.filter(session => session.date === dateStr && session.endTime)
-				.reduce((sum, session) => sum + session.wordCount, 0);
+				.reduce((sum, session) => sum + this.plugin.dataManager.getGoalProgress(session), 0);
 
 			data.push({
 				date: dateStr,
 				words: dayWords,
-				dayOfWeek: date.getDay()
+				dayOfWeek: weekday(dateStr)
 			});
 		}
 
-		// Pad to start on Sunday
-		const firstDayOfWeek = data[0].dayOfWeek;
-		for (let i = 0; i < firstDayOfWeek; i++) {
-			data.unshift({ date: '', words: 0, dayOfWeek: i });
+		// Pad so every column starts on the first day of the week
+		const weekStartsOn = this.plugin.dataManager.getWeekStartsOn();
+		const padding = (data[0].dayOfWeek - weekStartsOn + 7) % 7;
+		for (let i = 1; i <= padding; i++) {
+			data.unshift({ date: '', words: 0, dayOfWeek: (data[0].dayOfWeek + 6) % 7 });
 		}
 
 		return data;
@@ -1,14 +1,21 @@
-import type { WritingSession, StreakData, DashboardStats } from '../types/interfaces';
+import { DEFAULT_SETTINGS } from '../types/interfaces';
+import type { WritingSession, StreakData, DashboardStats, SessionLog, CountUnit, UnitType, CalendarSettings, SprintResult } from '../types/interfaces';
 import type { IWritingMomentumPlugin } from '../types/plugin-interface';
+import { countIn, isCountUnit } from './word-counter';
+import { addDays, dayKey, startOfWeek } from './dates';
+import { calculateStreak } from './streak-calculator';
+import type { StreakContext } from './streak-calculator';
 
 interface WritingData {
   sessions?: WritingSession[];
+  sprints?: SprintResult[];
   streak?: StreakData;
 }
 
 export class DataManager {
   private plugin: IWritingMomentumPlugin;
   private sessions: WritingSession[] = [];
+  private sprints: SprintResult[] = [];
   private streak: StreakData = {
     current: 0,
     longest: 0,
@@ -16,6 +23,7 @@ export class DataManager {
     graceUsed: 0,
     weeklyProgress: []
   };
+  private revision = 0;
 
   constructor(plugin: IWritingMomentumPlugin) {
     this.plugin = plugin;
@@ -26,14 +34,86 @@ export class DataManager {
     if (data && typeof data === 'object' && 'writingData' in data) {
       const writingData = data.writingData as WritingData;
       this.sessions = writingData.sessions || [];
+      this.sprints = writingData.sprints || [];
       this.streak = writingData.streak || this.getDefaultStreak();
     }
+    this.redateSessions();
+    this.recomputeStreak();
+  }
+
+  /**
+   * Today's date (YYYY-MM-DD) in the configured time zone and day start hour
+   */
+  getToday(): string {
+    return this.getDay(Date.now());
+  }
+
+  /**
+   * The writing day a timestamp belongs to
+   */
+  getDay(timestamp: number): string {
+    return dayKey(timestamp, this.getCalendar());
+  }
+
+  /**
+   * First day of the week containing a day (today by default).
+   * Everything that reports on "this week" goes through here.
+   */
+  getWeekStart(day: string = this.getToday()): string {
+    return startOfWeek(day, this.getWeekStartsOn());
+  }
+
+  getWeekStartsOn(): number {
+    return this.getCalendar().weekStartsOn;
+  }
+
+  private getStreakContext(): StreakContext {
+    return {
+      today: this.getToday(),
+      weekStartsOn: this.getWeekStartsOn(),
+      isVacation: day => this.isOnVacation(day)
+    };
+  }
+
+  // Calendars saved by older versions lack the newer fields
+  private getCalendar(): CalendarSettings {
+    return { ...DEFAULT_SETTINGS.calendar, ...this.plugin.settings.calendar };
+  }
+
+  /**
+   * Whether a day (today by default) falls in the configured vacation
+   */
+  isOnVacation(day: string = this.getToday()): boolean {
+    const vacation = this.plugin.settings.vacation;
+    if (!vacation || !vacation.enabled) return false;
+    return (!vacation.start || day >= vacation.start) && (!vacation.end || day <= vacation.end);
+  }
+
+  /**
+   * Re-derive session dates and the streak after the time zone or day start hour changed
+   */
+  async applyCalendarSettings() {
+    this.redateSessions();
+    this.recomputeStreak();
+    await this.saveData();
+  }
+
+  // Session dates follow from their start time, so they stay right when the calendar settings change
+  private redateSessions() {
+    for (const session of this.sessions) {
+      session.date = this.getDay(session.startTime);
+    }
+    for (const sprint of this.sprints) {
+      sprint.date = this.getDay(sprint.startTime);
+    }
   }
 
   async saveData() {
+    this.revision++;
     const currentData = await this.plugin.loadData() || {};
     currentData.writingData = {
       sessions: this.sessions,
+      sprints: this.sprints,
       streak: this.streak,
       lastUpdated: new Date().toISOString()
     };
@@ -52,23 +132,93 @@ export class DataManager {
 
   async addSession(session: WritingSession) {
     this.sessions.push(session);
-    if (session.completed && session.wordCount > 0) {
-      this.updateStreak(session.date);
-    }
+    this.recomputeStreak();
     await this.saveData();
   }
 
+  /**
+   * Sprints are kept apart from sessions; the words they hold already count through their session
+   */
+  async addSprint(sprint: SprintResult) {
+    this.sprints.push(sprint);
+    await this.saveData();
+  }
+
+  getSprints(): SprintResult[] {
+    return this.sprints;
+  }
+
   async updateSession(sessionId: string, updates: Partial<WritingSession>) {
     const sessionIndex = this.sessions.findIndex(s => s.id === sessionId);
     if (sessionIndex !== -1) {
       this.sessions[sessionIndex] = { ...this.sessions[sessionIndex], ...updates };
-      
-      if (updates.completed && this.sessions[sessionIndex].wordCount > 0) {
-        this.updateStreak(this.sessions[sessionIndex].date);
+      this.recomputeStreak();
+      await this.saveData();
+    }
+  }
+
+  /**
+   * Merge logs from the former purpose session tracker into the session history.
+   * A log that overlaps an existing session on the same note fills in its missing
+   * fields instead of creating a duplicate. Returns the number of logs merged.
+   */
+  async mergeSessionLogs(logs: SessionLog[]): Promise<number> {
+    let merged = 0;
+
+    for (const log of logs) {
+      if (log.status === 'ongoing') continue;
+
+      const existing = this.sessions.find(session =>
+        session.id === log.id ||
+        (log.notePath !== undefined &&
+          session.files.includes(log.notePath) &&
+          Math.abs(session.startTime - log.startedAt) < 60000)
+      );
+
+      if (existing) {
+        existing.profileId = existing.profileId || log.profileId;
+        existing.chars = existing.chars ?? log.chars;
+        existing.status = existing.status || log.status;
+        if (log.status === 'completed' && !existing.completed) {
+          existing.completed = true;
+          existing.status = 'completed';
+        }
+      } else {
+        this.sessions.push(this.sessionFromLog(log));
       }
-      
+      merged++;
+    }
+
+    if (merged > 0) {
+      this.sessions.sort((a, b) => a.startTime - b.startTime);
+      this.recomputeStreak();
       await this.saveData();
     }
+
+    return merged;
+  }
+
+  private sessionFromLog(log: SessionLog): WritingSession {
+    return {
+      id: log.id,
+      date: this.getDay(log.startedAt),
+      startTime: log.startedAt,
+      endTime: log.endedAt,
+      wordCount: log.words || 0,
+      chars: log.chars,
+      files: log.notePath ? [log.notePath] : [],
+      filePath: log.notePath,
+      completed: log.status === 'completed',
+      status: log.status,
+      profileId: log.profileId
+    };
+  }
+
+  /**
+   * Changes whenever the stored data is saved, so results derived from it can be cached
+   */
+  getRevision(): number {
+    return this.revision;
   }
 
   getAllSessions(): WritingSession[] {
@@ -76,7 +226,7 @@ export class DataManager {
   }
 
   getTodaysSessions(): WritingSession[] {
-    const today = new Date().toISOString().split('T')[0];
+    const today = this.getToday();
     return this.sessions.filter(session => session.date === today);
   }
 
@@ -85,21 +235,88 @@ export class DataManager {
   }
 
   getSessionsForWeek(startDate: string): WritingSession[] {
-    const start = new Date(startDate);
-    const end = new Date(start);
-    end.setDate(end.getDate() + 7);
-    
-    return this.sessions.filter(session => {
-      const sessionDate = new Date(session.date);
-      return sessionDate >= start && sessionDate < end;
-    });
+    const end = addDays(startDate, 7);
+    return this.sessions.filter(session => session.date >= startDate && session.date < end);
   }
 
   getSessionsForMonth(year: number, month: number): WritingSession[] {
-    return this.sessions.filter(session => {
-      const sessionDate = new Date(session.date);
-      return sessionDate.getFullYear() === year && sessionDate.getMonth() === month;
-    });
+    const prefix = `${year}-${(month + 1).toString().padStart(2, '0')}-`;
+    return this.sessions.filter(session => session.date.startsWith(prefix));
+  }
+
+  /**
+   * Amount a session contributes to goals in the given unit.
+   * When editing counts as writing, words changed and deleted are added to word goals.
+   */
+  getGoalProgress(session: WritingSession, unit: CountUnit = 'words'): number {
+    const amount = countIn(session, unit);
+    if (unit !== 'words' || !this.plugin.settings.streakRule.countEditing) {
+      return amount;
+    }
+    return amount + (session.wordsChanged || 0) + (session.wordsDeleted || 0);
+  }
+
+  /**
+   * Whether a session keeps the streak going
+   */
+  isProductive(session: WritingSession): boolean {
+    return session.completed && this.getGoalProgress(session) > 0;
+  }
+
+  /**
+   * Writing time of a finished session, excluding pauses and idle gaps.
+   * Sessions recorded before active time was tracked fall back to their manual pauses.
+   */
+  getActiveMs(session: WritingSession): number {
+    if (session.activeMs !== undefined) return session.activeMs;
+    if (!session.endTime) return 0;
+    return Math.max(0, session.endTime - session.startTime - (session.totalPausedDuration || 0));
+  }
+
+  /**
+   * The daily goal set by the active profile, falling back to the streak rule
+   */
+  getDailyGoal(): { unit: UnitType; target: number } {
+    const profile = this.plugin.activeProfile;
+    if (profile && profile.recommendation) {
+      return { unit: profile.recommendation.target.type, target: profile.recommendation.target.value };
+    }
+
+    const rule = this.plugin.settings.streakRule;
+    if (rule.mode === 'daily') {
+      return { unit: 'words', target: rule.target };
+    }
+    // Longer periods - spread the target over a week
+    return { unit: 'words', target: Math.round(rule.target / 7) };
+  }
+
+  /**
+   * Today's progress in a goal unit, counting the running session
+   */
+  getTodaysGoalProgress(unit: UnitType): number {
+    const current = this.plugin.sessionManager.getCurrentSession();
+    const today = this.getToday();
+    const finished = this.getTodaysSessions().filter(session => session.endTime);
+
+    if (isCountUnit(unit)) {
+      let progress = finished.reduce((sum, session) => sum + this.getGoalProgress(session, unit), 0);
+      if (current && current.date === today) {
+        progress += this.getGoalProgress(current, unit);
+      }
+      return progress;
+    }
+
+    // Minutes of writing time
+    let totalMs = finished.reduce((sum, session) => sum + this.getActiveMs(session), 0);
+    if (current && current.date === today) {
+      totalMs += this.plugin.sessionManager.getElapsedMs();
+    }
+    return Math.floor(totalMs / 60000);
+  }
+
+  hasMetDailyGoal(): boolean {
+    const { unit, target } = this.getDailyGoal();
+    return target > 0 && this.getTodaysGoalProgress(unit) >= target;
   }
 
   getTodaysWordCount(): number {
@@ -109,128 +326,40 @@ export class DataManager {
   }
 
   getWeekWordCount(): number {
-    const now = new Date();
-    const weekStart = new Date(now);
-    weekStart.setDate(now.getDate() - now.getDay()); // Start of week (Sunday)
-    weekStart.setHours(0, 0, 0, 0);
-    
+    const weekStart = this.getWeekStart();
+
     return this.sessions
-      .filter(session => {
-        const sessionDate = new Date(session.date);
-        return sessionDate >= weekStart && session.completed;
-      })
+      .filter(session => session.date >= weekStart && session.completed)
       .reduce((total, session) => total + session.wordCount, 0);
   }
 
   getMonthWordCount(): number {
-    const now = new Date();
-    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-    
+    const monthStart = `${this.getToday().slice(0, 8)}01`;
+
     return this.sessions
-      .filter(session => {
-        const sessionDate = new Date(session.date);
-        return sessionDate >= monthStart && session.completed;
-      })
+      .filter(session => session.date >= monthStart && session.completed)
       .reduce((total, session) => total + session.wordCount, 0);
   }
 
-  private updateStreak(date: string) {
-    const streakRule = this.plugin.settings.streakRule;
-    const today = new Date().toISOString().split('T')[0];
-    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-    
-    if (streakRule.mode === 'daily') {
-      this.updateDailyStreak(date, today, yesterday);
-    } else {
-      this.updateWeeklyStreak();
-    }
-  }
-
-  private updateDailyStreak(sessionDate: string, today: string, yesterday: string) {
-    if (this.streak.lastWritingDay === sessionDate) {
-      return; // Already counted this day
-    }
-
-    if (this.streak.lastWritingDay === yesterday || this.streak.lastWritingDay === '') {
-      // Continue streak or start new one
-      this.streak.current++;
-    } else if (this.canUseGraceDay()) {
-      // Use grace day to continue streak
-      this.streak.graceUsed++;
-      this.streak.current++;
-    } else {
-      // Break streak, start new one
-      this.streak.current = 1;
-      this.streak.graceUsed = 0;
-    }
-
-    this.streak.lastWritingDay = sessionDate;
-    
-    if (this.streak.current > this.streak.longest) {
-      this.streak.longest = this.streak.current;
-    }
-  }
-
-  private updateWeeklyStreak() {
-    const now = new Date();
-    const weekStart = new Date(now);
-    weekStart.setDate(now.getDate() - now.getDay());
-    
-    const thisWeekSessions = this.getSessionsForWeek(weekStart.toISOString().split('T')[0]);
-    const completedDays = new Set(
-      thisWeekSessions
-        .filter(session => session.completed && session.wordCount > 0)
-        .map(session => session.date)
-    ).size;
-
-    const target = this.plugin.settings.streakRule.target;
-    
-    const weekStartStr = weekStart.toISOString().split('T')[0];
-    const lastWeekChecked = this.streak.lastWritingDay;
-    
-    if (completedDays >= target) {
-      // Week goal achieved - only increment if we haven't counted this week yet
-      if (lastWeekChecked !== weekStartStr) {
-        this.streak.current++;
-        this.streak.lastWritingDay = weekStartStr;
-        
-        if (this.streak.current > this.streak.longest) {
-          this.streak.longest = this.streak.current;
-        }
-      }
-    } else {
-      // Week goal not achieved - check if we need to break streak
-      const today = new Date().toISOString().split('T')[0];
-      const endOfWeek = new Date(weekStart);
-      endOfWeek.setDate(endOfWeek.getDate() + 6);
-      
-      if (today > endOfWeek.toISOString().split('T')[0] && lastWeekChecked !== weekStartStr) {
-        // Week is over and goal wasn't met
-        this.streak.current = 0;
-        this.streak.graceUsed = 0;
-        this.streak.lastWritingDay = weekStartStr;
+  /**
+   * Rebuild the streak from the session history, so edits, deletions
+   * and imports are always reflected
+   */
+  private recomputeStreak() {
+    const activity: Record<string, number> = {};
+    for (const session of this.sessions) {
+      if (this.isProductive(session)) {
+        activity[session.date] = 1;
       }
     }
-    
-    // Update weekly progress
-    this.streak.weeklyProgress = new Array(7).fill(0);
-    for (let i = 0; i < 7; i++) {
-      const day = new Date(weekStart);
-      day.setDate(weekStart.getDate() + i);
-      const dayStr = day.toISOString().split('T')[0];
-      const dayHasSessions = thisWeekSessions.some(session => 
-        session.date === dayStr && session.completed && session.wordCount > 0
-      );
-      this.streak.weeklyProgress[i] = dayHasSessions ? 1 : 0;
-    }
-  }
-
-  private canUseGraceDay(): boolean {
-    const maxGrace = this.plugin.settings.streakRule.grace;
-    return this.streak.graceUsed < maxGrace;
+    // Rules saved by older versions lack the newer fields
+    const rule = { ...DEFAULT_SETTINGS.streakRule, ...this.plugin.settings.streakRule };
+    this.streak = calculateStreak(activity, rule, this.getStreakContext());
   }
 
   getStreak(): StreakData {
+    // A day may have passed since the last recompute
+    this.recomputeStreak();
     return this.streak;
   }
 
@@ -246,15 +375,13 @@ export class DataManager {
     ).length;
     
     const completionRate = totalSessions > 0 ? (targetMet / totalSessions) * 100 : 0;
-    const weekSessions = this.getSessionsForWeek(
-      new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
-    ).filter(session => session.completed).length;
+    const weekSessions = this.getSessionsForWeek(addDays(this.getToday(), -6)).filter(session => session.completed).length;
 
     return {
       todayWordCount: this.getTodaysWordCount(),
       weekWordCount: this.getWeekWordCount(),
       monthWordCount: this.getMonthWordCount(),
-      streak: this.streak,
+      streak: this.getStreak(),
       sessionsThisWeek: weekSessions,
       completionRate,
       recentSessions
@@ -263,11 +390,13 @@ export class DataManager {
 
   async deleteSession(sessionId: string) {
     this.sessions = this.sessions.filter(session => session.id !== sessionId);
+    this.recomputeStreak();
     await this.saveData();
   }
 
   async clearAllData() {
     this.sessions = [];
+    this.sprints = [];
     this.streak = this.getDefaultStreak();
     await this.saveData();
   }
@@ -275,6 +404,7 @@ export class DataManager {
   exportData() {
     return {
       sessions: this.sessions,
+      sprints: this.sprints,
       streak: this.streak,
       exportDate: new Date().toISOString(),
       version: '1.0'
@@ -283,14 +413,19 @@ export class DataManager {
 
   async importData(data: WritingData) {
     if (data.sessions) {
-      this.sessions = [...this.sessions, ...data.sessions];
+      // Sessions already in the history are skipped, so importing the same export twice is harmless
+      const known = new Set(this.sessions.map(session => session.id));
+      const imported = data.sessions.filter(session => !known.has(session.id));
+      this.sessions = [...this.sessions, ...imported].sort((a, b) => a.startTime - b.startTime);
     }
-    if (data.streak) {
-      // Merge streak data carefully
-      if (data.streak.longest > this.streak.longest) {
-        this.streak.longest = data.streak.longest;
-      }
+    if (data.sprints) {
+      const known = new Set(this.sprints.map(sprint => sprint.id));
+      const imported = data.sprints.filter(sprint => !known.has(sprint.id));
+      this.sprints = [...this.sprints, ...imported].sort((a, b) => a.startTime - b.startTime);
     }
+    this.redateSessions();
+    // The imported streak is ignored; it follows from the merged history
+    this.recomputeStreak();
     await this.saveData();
   }
 }
\ No newline at end of file
@@ -0,0 +1,170 @@
+import type { CalendarSettings, PeriodMode } from '../types/interfaces';
+
+// Day keys are YYYY-MM-DD strings; arithmetic on them is done in UTC so it is unaffected by DST
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat | null>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat | null {
+  if (!formatters.has(timeZone)) {
+    try {
+      formatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit'
+      }));
+    } catch {
+      formatters.set(timeZone, null); // Unknown time zone
+    }
+  }
+  return formatters.get(timeZone) || null;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  return getFormatter(timeZone) !== null;
+}
+
+/**
+ * The writing day a moment belongs to. Times before the configured
+ * day start hour count toward the previous day.
+ */
+export function dayKey(timestamp: number, calendar: CalendarSettings): string {
+  const shifted = new Date(timestamp - (calendar.dayStartHour || 0) * HOUR_MS);
+
+  const formatter = calendar.timeZone ? getFormatter(calendar.timeZone) : null;
+  if (formatter) {
+    // en-US formats as MM/DD/YYYY
+    const [month, day, year] = formatter.format(shifted).split('/');
+    return `${year}-${month}-${day}`;
+  }
+
+  return [
+    shifted.getFullYear(),
+    (shifted.getMonth() + 1).toString().padStart(2, '0'),
+    shifted.getDate().toString().padStart(2, '0')
+  ].join('-');
+}
+
+const clockFormatters = new Map<string, Intl.DateTimeFormat | null>();
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Weekday (0 = Sunday) and minutes since midnight of a moment on the wall
+ * clock of a time zone, or of the device when none is set
+ */
+export function clockTime(timestamp: number, timeZone = ''): { weekday: number; minutes: number } {
+  if (timeZone && !clockFormatters.has(timeZone)) {
+    try {
+      clockFormatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23'
+      }));
+    } catch {
+      clockFormatters.set(timeZone, null); // Unknown time zone
+    }
+  }
+
+  const formatter = timeZone ? clockFormatters.get(timeZone) : null;
+  if (formatter) {
+    const parts: Record<string, string> = {};
+    formatter.formatToParts(new Date(timestamp)).forEach(part => {
+      parts[part.type] = part.value;
+    });
+    return {
+      weekday: WEEKDAYS.indexOf(parts.weekday),
+      minutes: Number(parts.hour) * 60 + Number(parts.minute)
+    };
+  }
+
+  const date = new Date(timestamp);
+  return { weekday: date.getDay(), minutes: date.getHours() * 60 + date.getMinutes() };
+}
+
+function parseKey(key: string): number {
+  const [year, month, day] = key.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function formatKey(time: number): string {
+  return new Date(time).toISOString().split('T')[0];
+}
+
+// Midnight local time on a day, for formatting
+export function keyToDate(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function addDays(key: string, days: number): string {
+  return formatKey(parseKey(key) + days * DAY_MS);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseKey(to) - parseKey(from)) / DAY_MS);
+}
+
+// 0 = Sunday
+export function weekday(key: string): number {
+  return new Date(parseKey(key)).getUTCDay();
+}
+
+// weekStartsOn: 0 = Sunday, 1 = Monday (ISO weeks)
+export function startOfWeek(key: string, weekStartsOn = 0): string {
+  return addDays(key, -((weekday(key) - weekStartsOn + 7) % 7));
+}
+
+export function startOfMonth(key: string): string {
+  return `${key.slice(0, 8)}01`;
+}
+
+export interface PeriodRule {
+  mode: PeriodMode;
+  weekStartsOn: number;
+  rollingDays?: number; // length of a rolling window
+}
+
+/**
+ * First day of the period containing a day. Rolling windows are counted
+ * back from today, so the current window is always the last N days.
+ */
+export function periodStart(key: string, rule: PeriodRule, today: string): string {
+  switch (rule.mode) {
+    case 'weekly':
+      return startOfWeek(key, rule.weekStartsOn);
+    case 'monthly':
+      return startOfMonth(key);
+    case 'rolling': {
+      const length = Math.max(1, rule.rollingDays || 1);
+      const windowsBack = Math.floor(daysBetween(key, today) / length);
+      return addDays(today, -(windowsBack * length + length - 1));
+    }
+    default:
+      return key;
+  }
+}
+
+/**
+ * First day of the period after the one starting on `start`
+ */
+export function nextPeriodStart(start: string, rule: PeriodRule): string {
+  switch (rule.mode) {
+    case 'weekly':
+      return addDays(start, 7);
+    case 'monthly': {
+      const [year, month] = start.split('-').map(Number);
+      return month === 12
+        ? `${year + 1}-01-01`
+        : `${year}-${(month + 1).toString().padStart(2, '0')}-01`;
+    }
+    case 'rolling':
+      return addDays(start, Math.max(1, rule.rollingDays || 1));
+    default:
+      return addDays(start, 1);
+  }
+}
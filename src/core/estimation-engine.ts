@@ -1,7 +1,12 @@
 import type { QaAnswers, Recommendation, UnitType } from '../types/interfaces';
+import { UNIT_LABELS } from '../types/interfaces';
 
 const RULE_VERSION = "1.0.0";
 
+// Presets are written in words. Character goals are meant for CJK writing,
+// where a character carries roughly half an English word.
+const CHARS_PER_WORD = 2;
+
 interface PresetRule {
   sessionLengthMin: number;
   targetWords: number;
@@ -36,6 +41,31 @@ const PRESETS: Record<string, PresetRule> = {
   }
 };
 
+// Days of history used to project a finish date from recent output
+export const VELOCITY_WINDOW_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DeadlineInput {
+  targetWords: number;
+  wordsBeforeToday: number;
+  wordsToday: number;
+  deadline: string;       // YYYY-MM-DD
+  today: string;          // YYYY-MM-DD
+  writingDays: number[];  // 0=Sun..6=Sat; empty means every day
+  recentWords: number;    // words written in the last VELOCITY_WINDOW_DAYS days, including today
+}
+
+export interface DeadlinePlan {
+  remainingWords: number;        // still to write after today's words
+  writingDaysLeft: number;       // from today through the deadline
+  dailyQuota: number;            // per writing day, recalculated from progress before today
+  weeklyQuota: number;
+  neededToday: number;           // 0 on rest days and once today's quota is met
+  isWritingDay: boolean;
+  projectedFinish: string | null; // at recent velocity; null without recent writing
+  onTrack: boolean;
+}
+
 // Ambition mapping based on outcome keywords
 const AMBITION_MAP: Record<string, number> = {
   'publish': 2,
@@ -87,19 +117,23 @@ export class EstimationEngine {
 
     // 3. Apply user hint if provided
     if (answers.targetHint && answers.targetHint > 0) {
-      if (answers.unitPref === 'words') {
-        rec.targetWords = answers.targetHint;
-      } else {
+      if (answers.unitPref === 'minutes') {
         rec.sessionLengthMin = answers.targetHint;
+      } else if (answers.unitPref === 'characters') {
+        rec.targetWords = Math.round(answers.targetHint / CHARS_PER_WORD);
+      } else {
+        rec.targetWords = answers.targetHint;
       }
     }
 
     // 4. Build final recommendation based on unit preference
     const finalRec: Recommendation = {
       sessionLengthMin: this.clamp(rec.sessionLengthMin, 10, 90),
-      target: answers.unitPref === 'words'
-        ? { type: 'words', value: this.clamp(rec.targetWords, 100, 3000) }
-        : { type: 'minutes', value: this.clamp(rec.sessionLengthMin, 10, 90) },
+      target: this.buildTarget(
+        answers.unitPref,
+        this.clamp(rec.targetWords, 100, 3000),
+        this.clamp(rec.sessionLengthMin, 10, 90)
+      ),
       sessionsPerWeek: this.clamp(Math.round(rec.sessionsPerWeek), 1, 7),
       ruleVersion: RULE_VERSION,
       calculatedAt: Date.now()
@@ -125,6 +159,23 @@ export class EstimationEngine {
     return maxAmbition;
   }
 
+  /**
+   * Express a target in the preferred unit
+   */
+  private static buildTarget(unit: UnitType, words: number, minutes: number): Recommendation['target'] {
+    switch (unit) {
+      case 'minutes':
+        return { type: 'minutes', value: minutes };
+      case 'characters':
+        return { type: 'characters', value: words * CHARS_PER_WORD };
+      case 'mixed':
+        return { type: 'mixed', value: words };
+      case 'words':
+      default:
+        return { type: 'words', value: words };
+    }
+  }
+
   /**
    * Clamp value between min and max
    */
@@ -140,9 +191,7 @@ export class EstimationEngine {
 
     return {
       sessionLengthMin: base.sessionLengthMin,
-      target: unitPref === 'words'
-        ? { type: 'words', value: base.targetWords }
-        : { type: 'minutes', value: base.sessionLengthMin },
+      target: this.buildTarget(unitPref, base.targetWords, base.sessionLengthMin),
       sessionsPerWeek: Math.round(base.sessionsPerWeek),
       ruleVersion: RULE_VERSION,
       calculatedAt: Date.now()
@@ -172,13 +221,66 @@ export class EstimationEngine {
     return rec.ruleVersion !== RULE_VERSION;
   }
 
+  /**
+   * Deadline mode: spread the words left over the writing days left.
+   * The quota is fixed for the day from progress before today, so writing
+   * ahead lowers tomorrow's quota instead of moving today's target.
+   */
+  static planDeadline(input: DeadlineInput): DeadlinePlan {
+    const writingDays = input.writingDays.length > 0 ? input.writingDays : [0, 1, 2, 3, 4, 5, 6];
+    const today = this.parseDate(input.today);
+    const deadline = this.parseDate(input.deadline);
+    const isWritingDay = writingDays.includes(today.getUTCDay());
+
+    let writingDaysLeft = 0;
+    for (let day = today.getTime(); day <= deadline.getTime(); day += DAY_MS) {
+      if (writingDays.includes(new Date(day).getUTCDay())) {
+        writingDaysLeft++;
+      }
+    }
+
+    const remainingBeforeToday = Math.max(0, input.targetWords - input.wordsBeforeToday);
+    const remainingWords = Math.max(0, remainingBeforeToday - input.wordsToday);
+
+    // Past the deadline (or no writing days left), everything is due now
+    const dailyQuota = writingDaysLeft > 0
+      ? Math.ceil(remainingBeforeToday / writingDaysLeft)
+      : remainingBeforeToday;
+    const weeklyQuota = Math.min(remainingBeforeToday, dailyQuota * writingDays.length);
+    const neededToday = isWritingDay || writingDaysLeft === 0
+      ? Math.max(0, dailyQuota - input.wordsToday)
+      : 0;
+
+    let projectedFinish: string | null = null;
+    if (remainingWords === 0) {
+      projectedFinish = input.today;
+    } else if (input.recentWords > 0) {
+      const velocity = input.recentWords / VELOCITY_WINDOW_DAYS;
+      const daysNeeded = Math.ceil(remainingWords / velocity);
+      projectedFinish = new Date(today.getTime() + daysNeeded * DAY_MS).toISOString().split('T')[0];
+    }
+
+    return {
+      remainingWords,
+      writingDaysLeft,
+      dailyQuota,
+      weeklyQuota,
+      neededToday,
+      isWritingDay,
+      projectedFinish,
+      onTrack: projectedFinish !== null && projectedFinish <= input.deadline
+    };
+  }
+
+  private static parseDate(date: string): Date {
+    return new Date(`${date}T00:00:00Z`);
+  }
+
   /**
    * Get human-readable description of recommendation
    */
   static describe(rec: Recommendation): string {
-    const target = rec.target.type === 'words'
-      ? `${rec.target.value} words`
-      : `${rec.target.value} minutes`;
+    const target = `${rec.target.value} ${UNIT_LABELS[rec.target.type]}`;
 
     const freq = rec.sessionsPerWeek === 7
       ? 'daily'
@@ -0,0 +1,41 @@
+/**
+ * Convert a vault path glob to a regular expression.
+ * `**` matches across folders, `*` and `?` stay within one path segment.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" also matches no folder at all
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i++;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Match a note path against a folder or glob.
+ * A pattern without wildcards matches the folder itself and everything inside it.
+ */
+export function matchesPathPattern(path: string, pattern: string): boolean {
+  const trimmed = pattern.trim().replace(/^\/+|\/+$/g, '');
+  if (!trimmed) return false;
+
+  if (!/[*?]/.test(trimmed)) {
+    return path === trimmed || path.startsWith(`${trimmed}/`);
+  }
+  return globToRegExp(trimmed).test(path);
+}
@@ -0,0 +1,110 @@
+import { addCounts, emptyCount } from './word-counter';
+import type { TextCount, WordCounter } from './word-counter';
+import { diffBlocks } from './text-diff';
+import type { EditCount } from './text-diff';
+
+interface CachedBlock {
+  text: string;
+  count: TextCount;
+  words?: string[]; // tokenized on demand when diffing
+}
+
+// The blocks of a file at one point in time, to diff later versions against
+export type FileSnapshot = readonly CachedBlock[];
+
+/**
+ * Caches word counts per file, split into paragraph blocks.
+ * When a file changes, only the blocks between the unchanged prefix and
+ * suffix are recounted, so edits in large manuscripts stay cheap.
+ */
+export class IncrementalWordCounter {
+  private cache: Map<string, CachedBlock[]> = new Map();
+  private wordCounter: WordCounter;
+
+  constructor(wordCounter: WordCounter) {
+    this.wordCounter = wordCounter;
+  }
+
+  /**
+   * Update the cached blocks of a file with its latest content and return its total count
+   */
+  update(path: string, content: string): TextCount {
+    const previous = this.cache.get(path) || [];
+    const texts = this.wordCounter.splitBlocks(content);
+
+    // Skip blocks that are unchanged at the start and the end of the file
+    let prefix = 0;
+    while (prefix < texts.length && prefix < previous.length && texts[prefix] === previous[prefix].text) {
+      prefix++;
+    }
+
+    let suffix = 0;
+    while (
+      suffix < texts.length - prefix &&
+      suffix < previous.length - prefix &&
+      texts[texts.length - 1 - suffix] === previous[previous.length - 1 - suffix].text
+    ) {
+      suffix++;
+    }
+
+    const changed: CachedBlock[] = texts
+      .slice(prefix, texts.length - suffix)
+      .map(text => ({ text, count: this.wordCounter.countBlock(text) }));
+
+    const blocks = [
+      ...previous.slice(0, prefix),
+      ...changed,
+      ...previous.slice(previous.length - suffix)
+    ];
+    this.cache.set(path, blocks);
+
+    return this.sum(blocks);
+  }
+
+  get(path: string): TextCount | null {
+    const blocks = this.cache.get(path);
+    return blocks ? this.sum(blocks) : null;
+  }
+
+  has(path: string): boolean {
+    return this.cache.has(path);
+  }
+
+  snapshot(path: string): FileSnapshot {
+    return [...(this.cache.get(path) || [])];
+  }
+
+  /**
+   * Words added, deleted and changed in a file since the snapshot was taken
+   */
+  diff(path: string, snapshot: FileSnapshot): EditCount {
+    return diffBlocks(snapshot, this.cache.get(path) || [], block => block.text, block => this.wordsOf(block));
+  }
+
+  rename(oldPath: string, newPath: string) {
+    const blocks = this.cache.get(oldPath);
+    if (blocks) {
+      this.cache.delete(oldPath);
+      this.cache.set(newPath, blocks);
+    }
+  }
+
+  forget(path: string) {
+    this.cache.delete(path);
+  }
+
+  clear() {
+    this.cache.clear();
+  }
+
+  private wordsOf(block: CachedBlock): string[] {
+    if (!block.words) {
+      block.words = this.wordCounter.words(block.text);
+    }
+    return block.words;
+  }
+
+  private sum(blocks: CachedBlock[]): TextCount {
+    return blocks.reduce((total, block) => addCounts(total, block.count), emptyCount());
+  }
+}
@@ -0,0 +1,38 @@
+import { App, TFile, getAllTags } from 'obsidian';
+
+/**
+ * Whether a note has a tag, in its body or frontmatter. Nested tags count,
+ * so "novel" also matches "#novel/chapter".
+ */
+export function hasTag(app: App, file: TFile, tag: string): boolean {
+  const cache = app.metadataCache.getFileCache(file);
+  const tags = cache ? getAllTags(cache) || [] : [];
+  const wanted = `#${tag.trim().replace(/^#/, '').toLowerCase()}`;
+
+  return tags.some(t => {
+    const lower = t.toLowerCase();
+    return lower === wanted || lower.startsWith(`${wanted}/`);
+  });
+}
+
+/**
+ * Whether a note's frontmatter matches "key" (present and not false)
+ * or "key: value" (equal to value, or containing it when the property is a list).
+ */
+export function hasFrontmatter(app: App, file: TFile, rule: string): boolean {
+  const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+  if (!frontmatter) return false;
+
+  const separator = rule.indexOf(':');
+  const key = (separator === -1 ? rule : rule.slice(0, separator)).trim();
+  const expected = separator === -1 ? null : rule.slice(separator + 1).trim().toLowerCase();
+  if (!key || !(key in frontmatter)) return false;
+
+  const value: unknown = frontmatter[key];
+  if (expected === null) {
+    return value !== false && value !== null && value !== undefined;
+  }
+
+  const values: unknown[] = Array.isArray(value) ? value : [value];
+  return values.some(v => String(v).toLowerCase() === expected);
+}
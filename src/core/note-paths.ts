@@ -0,0 +1,55 @@
+import type { FilePathRule, NoteCollision } from '../types/interfaces';
+import { formatDate } from './template-language';
+
+export const NOTE_COLLISIONS: Record<NoteCollision, string> = {
+  suffix: 'Create a numbered note',
+  open: 'Open the existing note',
+  append: 'Add to the end of the existing note'
+};
+
+// Date tokens usable on their own in folders and file names, e.g. "Journal/{{YYYY}}/{{MM}}"
+const DATE_SHORTHANDS = ['YYYY', 'YY', 'MMMM', 'MMM', 'MM', 'DD', 'Do', 'dddd', 'ddd', 'WW'];
+
+export function dateShorthands(date: Date, locale?: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const token of DATE_SHORTHANDS) {
+    values[token] = formatDate(date, token, locale);
+  }
+  return values;
+}
+
+/**
+ * A rule with surrounding whitespace removed and defaults left out,
+ * or undefined when nothing differs from creating "<title>.md" in the root.
+ * A chosen collision is kept even when it is the default.
+ */
+export function normalizeFilePathRule(rule?: Partial<FilePathRule>): FilePathRule | undefined {
+  if (!rule) return undefined;
+
+  const normalized: FilePathRule = {
+    pattern: (rule.pattern || '').trim(),
+    folder: (rule.folder || '').trim().replace(/^\/+|\/+$/g, '')
+  };
+  if (rule.collision) normalized.collision = rule.collision;
+  if (rule.createFolders === false) normalized.createFolders = false;
+
+  const isDefault = !normalized.pattern && !normalized.folder && !normalized.collision && normalized.createFolders === undefined;
+  return isDefault ? undefined : normalized;
+}
+
+// Characters that are not allowed, or have a meaning in links, become dashes
+export function sanitizeFileName(name: string): string {
+  return name
+    .replace(/[<>:"/\\|?*#^[\]]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+|\.+$/g, '');
+}
+
+export function sanitizeFolderPath(folder: string): string {
+  return folder
+    .split('/')
+    .map(segment => sanitizeFileName(segment))
+    .filter(segment => segment.length > 0)
+    .join('/');
+}
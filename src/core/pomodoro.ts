@@ -0,0 +1,119 @@
+import type { PomodoroPhase, PomodoroState } from '../types/interfaces';
+
+export interface PomodoroLengths {
+  focusMin: number;
+  shortBreakMin: number;
+  longBreakMin: number;
+  longBreakEvery: number; // focus periods before a long break
+}
+
+export const PHASE_LABELS: Record<PomodoroPhase, string> = {
+  focus: 'Focus',
+  shortBreak: 'Short break',
+  longBreak: 'Long break'
+};
+
+/**
+ * Focus and break countdown for one session. A single timeout is pending at
+ * any time, and pausing keeps the time left in the current phase.
+ */
+export class PomodoroTimer {
+  private lengths: PomodoroLengths;
+  private onPhaseEnd: (ended: PomodoroPhase, next: PomodoroPhase) => void;
+  private phase: PomodoroPhase = 'focus';
+  private completed = 0;
+  private endsAt = 0;
+  private remainingMs = 0;
+  private paused = false;
+  private running = false;
+  private timeout: number | null = null;
+
+  constructor(lengths: PomodoroLengths, onPhaseEnd: (ended: PomodoroPhase, next: PomodoroPhase) => void) {
+    this.lengths = lengths;
+    this.onPhaseEnd = onPhaseEnd;
+  }
+
+  start() {
+    this.stop();
+    this.running = true;
+    this.completed = 0;
+    this.enterPhase('focus');
+  }
+
+  pause() {
+    if (!this.running || this.paused) return;
+    this.remainingMs = Math.max(0, this.endsAt - Date.now());
+    this.paused = true;
+    this.clearTimeout();
+  }
+
+  resume() {
+    if (!this.running || !this.paused) return;
+    this.paused = false;
+    this.schedule(this.remainingMs);
+  }
+
+  stop() {
+    this.clearTimeout();
+    this.running = false;
+    this.paused = false;
+  }
+
+  getState(): PomodoroState | null {
+    if (!this.running) return null;
+    return {
+      phase: this.phase,
+      remainingMs: this.paused ? this.remainingMs : Math.max(0, this.endsAt - Date.now()),
+      completed: this.completed,
+      paused: this.paused
+    };
+  }
+
+  getCompleted(): number {
+    return this.completed;
+  }
+
+  private enterPhase(phase: PomodoroPhase) {
+    this.phase = phase;
+    const minutes = phase === 'focus'
+      ? this.lengths.focusMin
+      : phase === 'longBreak' ? this.lengths.longBreakMin : this.lengths.shortBreakMin;
+    this.schedule(minutes * 60000);
+  }
+
+  private schedule(ms: number) {
+    this.clearTimeout();
+    this.endsAt = Date.now() + ms;
+    this.timeout = window.setTimeout(() => {
+      this.timeout = null;
+      this.advance();
+    }, ms);
+  }
+
+  private advance() {
+    const ended = this.phase;
+    let next: PomodoroPhase = 'focus';
+    if (ended === 'focus') {
+      this.completed++;
+      const every = Math.max(1, this.lengths.longBreakEvery);
+      next = this.completed % every === 0 ? 'longBreak' : 'shortBreak';
+    }
+
+    this.enterPhase(next);
+    this.onPhaseEnd(ended, next);
+  }
+
+  private clearTimeout() {
+    if (this.timeout) {
+      window.clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+  }
+}
+
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
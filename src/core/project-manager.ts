@@ -0,0 +1,393 @@
+import { Notice, TFile } from 'obsidian';
+import type { Project, ProjectInput, WritingSession } from '../types/interfaces';
+import type { IWritingMomentumPlugin } from '../types/plugin-interface';
+import { matchesPathPattern } from './glob';
+import { hasTag } from './note-matcher';
+import { addDays, daysBetween } from './dates';
+import { EstimationEngine, VELOCITY_WINDOW_DAYS } from './estimation-engine';
+import type { DeadlinePlan } from './estimation-engine';
+
+export interface ProjectProgress {
+  project: Project;
+  words: number;
+  percent: number;
+  sessionsThisWeek: number;
+  daysLeft: number | null; // null without a deadline, negative once it has passed
+}
+
+// A project's words from completed sessions, split for deadline planning
+interface FinishedWords {
+  beforeToday: number;
+  today: number;
+  recent: number; // within the velocity window
+}
+
+export class ProjectManager {
+  private plugin: IWritingMomentumPlugin;
+  // Per project, for the day and data revision in the key
+  private finishedWords: { key: string; words: Map<string, FinishedWords> } | null = null;
+
+  constructor(plugin: IWritingMomentumPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Get all projects
+   */
+  getAllProjects(): Project[] {
+    return this.plugin.settings.projects || [];
+  }
+
+  /**
+   * Get a specific project by ID
+   */
+  getProject(projectId: string): Project | null {
+    return this.getAllProjects().find(p => p.id === projectId) || null;
+  }
+
+  /**
+   * Create a new project and attribute existing sessions to it
+   */
+  async createProject(input: ProjectInput): Promise<Project> {
+    this.validate(input);
+
+    if (this.getAllProjects().some(p => p.name.toLowerCase() === input.name.trim().toLowerCase())) {
+      throw new Error(`Project with name "${input.name}" already exists`);
+    }
+
+    const project: Project = {
+      ...this.normalize(input),
+      id: `project-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+
+    if (!this.plugin.settings.projects) {
+      this.plugin.settings.projects = [];
+    }
+    this.plugin.settings.projects.push(project);
+    await this.plugin.saveSettings();
+    await this.reattribute(project);
+
+    new Notice(`Project "${project.name}" created`);
+    return project;
+  }
+
+  /**
+   * Update an existing project. Changing its scope re-attributes past sessions.
+   */
+  async updateProject(projectId: string, input: ProjectInput): Promise<Project> {
+    const projects = this.getAllProjects();
+    const index = projects.findIndex(p => p.id === projectId);
+    if (index === -1) {
+      throw new Error('Project not found');
+    }
+
+    this.validate(input);
+
+    if (projects.some(p => p.id !== projectId && p.name.toLowerCase() === input.name.trim().toLowerCase())) {
+      throw new Error(`Project with name "${input.name}" already exists`);
+    }
+
+    const updated: Project = {
+      ...projects[index],
+      ...this.normalize(input),
+      updatedAt: Date.now()
+    };
+    projects[index] = updated;
+
+    await this.plugin.saveSettings();
+    await this.reattribute(updated);
+
+    new Notice(`Project "${updated.name}" updated`);
+    return updated;
+  }
+
+  /**
+   * Delete a project and its attribution on past sessions
+   */
+  async deleteProject(projectId: string): Promise<void> {
+    const projects = this.getAllProjects();
+    const index = projects.findIndex(p => p.id === projectId);
+    if (index === -1) {
+      throw new Error('Project not found');
+    }
+
+    const [project] = projects.splice(index, 1);
+    await this.plugin.saveSettings();
+
+    for (const session of this.plugin.dataManager.getAllSessions()) {
+      if (session.projectWords) {
+        delete session.projectWords[projectId];
+      }
+    }
+    await this.plugin.dataManager.saveData();
+
+    new Notice(`Project "${project.name}" deleted`);
+  }
+
+  /**
+   * Whether a note belongs to a project
+   */
+  matches(project: Project, path: string): boolean {
+    switch (project.scope) {
+      case 'folder':
+        return !!project.folder && matchesPathPattern(path, project.folder);
+      case 'tag':
+        return !!project.tag && this.hasTag(path, project.tag);
+      case 'files':
+        return (project.files || []).includes(path);
+      default:
+        return false;
+    }
+  }
+
+  getProjectsForFile(path: string): Project[] {
+    return this.getAllProjects().filter(project => this.matches(project, path));
+  }
+
+  /**
+   * Words a session wrote in each project, keyed by project ID.
+   * A project is listed, possibly with zero words, whenever one of the session's notes belongs to it.
+   */
+  attribute(session: WritingSession, projects: Project[] = this.getAllProjects()): Record<string, number> {
+    const fileWords = this.getFileWords(session);
+    const result: Record<string, number> = {};
+
+    for (const project of projects) {
+      for (const path of session.files) {
+        if (this.matches(project, path)) {
+          result[project.id] = (result[project.id] || 0) + (fileWords[path] || 0);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Record which projects a finished session contributed to
+   */
+  attributeSession(session: WritingSession) {
+    session.projectWords = this.attribute(session);
+  }
+
+  getProgress(project: Project): ProjectProgress {
+    const weekStart = this.getWeekStart();
+    let words = 0;
+    let sessionsThisWeek = 0;
+
+    for (const session of this.getProjectSessions(project)) {
+      words += session.words;
+      if (session.date >= weekStart) {
+        sessionsThisWeek++;
+      }
+    }
+
+    return {
+      project,
+      words,
+      percent: project.targetWords > 0 ? Math.min(100, (words / project.targetWords) * 100) : 0,
+      sessionsThisWeek,
+      daysLeft: this.getDaysLeft(project)
+    };
+  }
+
+  getAllProgress(): ProjectProgress[] {
+    return this.getAllProjects().map(project => this.getProgress(project));
+  }
+
+  /**
+   * Daily quota toward the project's deadline, recalculated from words written so far.
+   * Writing days follow the profile's preferred days.
+   */
+  getDeadlinePlan(project: Project): DeadlinePlan | null {
+    if (!project.deadline) return null;
+
+    const today = this.plugin.dataManager.getToday();
+    const finished = this.getFinishedWords(today).get(project.id);
+    let wordsBeforeToday = finished?.beforeToday || 0;
+    let wordsToday = finished?.today || 0;
+    let recentWords = finished?.recent || 0;
+
+    // Only the running session changes while writing
+    const live = this.getLiveSession(project);
+    if (live) {
+      if (live.date === today) {
+        wordsToday += live.words;
+      } else {
+        wordsBeforeToday += live.words;
+      }
+      if (live.date >= addDays(today, -(VELOCITY_WINDOW_DAYS - 1))) {
+        recentWords += live.words;
+      }
+    }
+
+    return EstimationEngine.planDeadline({
+      targetWords: project.targetWords,
+      wordsBeforeToday,
+      wordsToday,
+      deadline: project.deadline,
+      today,
+      writingDays: this.plugin.activeProfile?.answers.preferredDays || [],
+      recentWords
+    });
+  }
+
+  /**
+   * The unfinished project with the nearest deadline that has not passed
+   */
+  getNextDeadline(): { project: Project; plan: DeadlinePlan } | null {
+    const today = this.plugin.dataManager.getToday();
+    let next: { project: Project; plan: DeadlinePlan } | null = null;
+
+    for (const project of this.getAllProjects()) {
+      if (!project.deadline || project.deadline < today) continue;
+      if (next && next.project.deadline! <= project.deadline) continue;
+
+      const plan = this.getDeadlinePlan(project);
+      if (plan && plan.remainingWords > 0) {
+        next = { project, plan };
+      }
+    }
+
+    return next;
+  }
+
+  /**
+   * Date and words of every completed session attributed to a project, including the running one
+   */
+  private getProjectSessions(project: Project): { date: string; words: number }[] {
+    const result: { date: string; words: number }[] = [];
+
+    for (const session of this.plugin.dataManager.getAllSessions()) {
+      const words = session.projectWords?.[project.id];
+      if (session.completed && words !== undefined) {
+        result.push({ date: session.date, words });
+      }
+    }
+
+    const live = this.getLiveSession(project);
+    if (live) {
+      result.push(live);
+    }
+
+    return result;
+  }
+
+  // The running session is not attributed yet
+  private getLiveSession(project: Project): { date: string; words: number } | null {
+    const current = this.plugin.sessionManager.getCurrentSession();
+    if (!current) return null;
+
+    const words = this.attribute(current, [project])[project.id];
+    return words === undefined ? null : { date: current.date, words };
+  }
+
+  /**
+   * Words of completed sessions per project, summed once per day and whenever sessions are saved
+   */
+  private getFinishedWords(today: string): Map<string, FinishedWords> {
+    const key = `${today}#${this.plugin.dataManager.getRevision()}`;
+    if (this.finishedWords?.key === key) return this.finishedWords.words;
+
+    const windowStart = addDays(today, -(VELOCITY_WINDOW_DAYS - 1));
+    const words = new Map<string, FinishedWords>();
+    for (const session of this.plugin.dataManager.getAllSessions()) {
+      if (!session.completed || !session.projectWords) continue;
+
+      for (const [projectId, count] of Object.entries(session.projectWords)) {
+        const totals = words.get(projectId) || { beforeToday: 0, today: 0, recent: 0 };
+        if (session.date === today) {
+          totals.today += count;
+        } else {
+          totals.beforeToday += count;
+        }
+        if (session.date >= windowStart) {
+          totals.recent += count;
+        }
+        words.set(projectId, totals);
+      }
+    }
+
+    this.finishedWords = { key, words };
+    return words;
+  }
+
+  /**
+   * Recompute a project's share of every stored session
+   */
+  private async reattribute(project: Project) {
+    for (const session of this.plugin.dataManager.getAllSessions()) {
+      const words = this.attribute(session, [project])[project.id];
+      if (!session.projectWords) {
+        session.projectWords = {};
+      }
+      if (words === undefined) {
+        delete session.projectWords[project.id];
+      } else {
+        session.projectWords[project.id] = words;
+      }
+    }
+    await this.plugin.dataManager.saveData();
+  }
+
+  /**
+   * Words added per note. Sessions recorded before per-note counts were
+   * tracked can only be attributed when they covered a single note.
+   */
+  private getFileWords(session: WritingSession): Record<string, number> {
+    if (session.fileWords) return session.fileWords;
+    if (session.files.length === 1) return { [session.files[0]]: session.wordCount };
+    return {};
+  }
+
+  private hasTag(path: string, tag: string): boolean {
+    const file = this.plugin.app.vault.getAbstractFileByPath(path);
+    return file instanceof TFile && hasTag(this.plugin.app, file, tag);
+  }
+
+  private getDaysLeft(project: Project): number | null {
+    if (!project.deadline) return null;
+    return daysBetween(this.plugin.dataManager.getToday(), project.deadline);
+  }
+
+  private getWeekStart(): string {
+    return this.plugin.dataManager.getWeekStart();
+  }
+
+  private validate(input: ProjectInput) {
+    if (!input.name || input.name.trim().length === 0) {
+      throw new Error('Project name cannot be empty');
+    }
+
+    if (!(input.targetWords > 0)) {
+      throw new Error('Target word count must be greater than zero');
+    }
+
+    if (input.scope === 'folder' && !input.folder?.trim()) {
+      throw new Error('Enter a folder or glob for this project');
+    }
+    if (input.scope === 'tag' && !input.tag?.trim()) {
+      throw new Error('Enter a tag for this project');
+    }
+    if (input.scope === 'files' && !(input.files && input.files.length > 0)) {
+      throw new Error('Add at least one note to this project');
+    }
+
+    if (input.deadline && !/^\d{4}-\d{2}-\d{2}$/.test(input.deadline)) {
+      throw new Error('Deadline must be a date in YYYY-MM-DD format');
+    }
+  }
+
+  private normalize(input: ProjectInput): ProjectInput {
+    return {
+      ...input,
+      name: input.name.trim(),
+      folder: input.folder?.trim() || undefined,
+      tag: input.tag?.trim().replace(/^#/, '') || undefined,
+      files: input.files?.map(f => f.trim()).filter(f => f.length > 0),
+      deadline: input.deadline || undefined
+    };
+  }
+}
@@ -0,0 +1,193 @@
+import { Notice } from 'obsidian';
+import type { ReminderConfig, ReminderInput, WritingWindow } from '../types/interfaces';
+import type { IWritingMomentumPlugin } from '../types/plugin-interface';
+import { adaptReminderTime, findWritingWindows, formatTime, parseTime } from './writing-rhythm';
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class ReminderManager {
+  private plugin: IWritingMomentumPlugin;
+
+  constructor(plugin: IWritingMomentumPlugin) {
+    this.plugin = plugin;
+  }
+
+  getAllReminders(): ReminderConfig[] {
+    return this.plugin.settings.reminders || [];
+  }
+
+  getReminder(reminderId: string): ReminderConfig | null {
+    return this.getAllReminders().find(r => r.id === reminderId) || null;
+  }
+
+  async createReminder(input: ReminderInput): Promise<ReminderConfig> {
+    this.validate(input);
+
+    const reminder: ReminderConfig = {
+      ...this.normalize(input),
+      id: `reminder-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`
+    };
+
+    if (!this.plugin.settings.reminders) {
+      this.plugin.settings.reminders = [];
+    }
+    this.plugin.settings.reminders.push(reminder);
+    await this.save();
+
+    new Notice(`Reminder at ${reminder.time} created`);
+    return reminder;
+  }
+
+  async updateReminder(reminderId: string, input: ReminderInput): Promise<ReminderConfig> {
+    const reminders = this.getAllReminders();
+    const index = reminders.findIndex(r => r.id === reminderId);
+    if (index === -1) {
+      throw new Error('Reminder not found');
+    }
+
+    this.validate(input);
+
+    const updated: ReminderConfig = {
+      ...this.normalize(input),
+      id: reminderId
+    };
+    reminders[index] = updated;
+    await this.save();
+
+    new Notice(`Reminder at ${updated.time} updated`);
+    return updated;
+  }
+
+  /**
+   * Turn a reminder on or off without going through the editor
+   */
+  async setEnabled(reminderId: string, enabled: boolean): Promise<void> {
+    const reminder = this.getReminder(reminderId);
+    if (!reminder) {
+      throw new Error('Reminder not found');
+    }
+
+    reminder.enabled = enabled;
+    await this.save();
+  }
+
+  async deleteReminder(reminderId: string): Promise<void> {
+    const reminders = this.getAllReminders();
+    const index = reminders.findIndex(r => r.id === reminderId);
+    if (index === -1) {
+      throw new Error('Reminder not found');
+    }
+
+    const [reminder] = reminders.splice(index, 1);
+    await this.save();
+
+    new Notice(`Reminder at ${reminder.time} deleted`);
+  }
+
+  /**
+   * A short summary such as "Mon, Wed, Fri at 07:00 · Daily Journal"
+   */
+  describe(reminder: ReminderConfig): string {
+    const days = reminder.days.length === 7
+      ? 'Every day'
+      : [...reminder.days].sort((a, b) => a - b).map(day => DAY_NAMES[day]).join(', ');
+
+    const parts = [`${days} at ${reminder.time}`];
+    if (reminder.templateId) {
+      const template = this.plugin.templateManager.getTemplate(reminder.templateId);
+      parts.push(template ? template.name : 'a deleted template');
+    }
+    if (reminder.dnd) {
+      parts.push(`quiet ${reminder.dnd.start}–${reminder.dnd.end}`);
+    }
+    return parts.join(' · ');
+  }
+
+  /**
+   * Times of day the user usually starts writing, per weekday, on the device clock unless a time zone is given
+   */
+  getWritingWindows(timeZone = ''): WritingWindow[][] {
+    const dataManager = this.plugin.dataManager;
+    return findWritingWindows(dataManager.getAllSessions().filter(session => dataManager.isProductive(session)), Date.now(), timeZone);
+  }
+
+  /**
+   * When a reminder should fire on a weekday, following the user's writing times when it is adaptive
+   */
+  getReminderTime(reminder: ReminderConfig, weekday: number, windows: WritingWindow[][] = this.getWritingWindows()): number | null {
+    const time = parseTime(reminder.time);
+    if (time === null || !reminder.adaptive) return time;
+    return adaptReminderTime(time, windows[weekday]);
+  }
+
+  /**
+   * The time a reminder would move to on most of its days if it adapted to
+   * the user's writing times, or null when it would stay where it is
+   */
+  suggestTime(time: string, days: number[]): string | null {
+    const base = parseTime(time);
+    if (base === null) return null;
+
+    const windows = this.getWritingWindows();
+    const counts = new Map<number, number>();
+    for (const day of days) {
+      const adapted = adaptReminderTime(base, windows[day]);
+      if (adapted !== base) {
+        counts.set(adapted, (counts.get(adapted) || 0) + 1);
+      }
+    }
+
+    let suggestion: number | null = null;
+    counts.forEach((count, adapted) => {
+      if (suggestion === null || count > counts.get(suggestion)!) {
+        suggestion = adapted;
+      }
+    });
+    return suggestion === null ? null : formatTime(suggestion);
+  }
+
+  private async save() {
+    await this.plugin.saveSettings();
+    this.plugin.reminderScheduler.reschedule();
+    this.plugin.refreshDashboard();
+  }
+
+  private validate(input: ReminderInput) {
+    if (!TIME_PATTERN.test(input.time)) {
+      throw new Error('Time must be in HH:MM format');
+    }
+
+    if (input.days.length === 0) {
+      throw new Error('Pick at least one day for this reminder');
+    }
+
+    if (input.secondShotMins !== undefined && !(input.secondShotMins >= 0)) {
+      throw new Error('Second reminder delay cannot be negative');
+    }
+
+    if (input.snoozeOptions && input.snoozeOptions.some(minutes => !(minutes > 0))) {
+      throw new Error('Snooze lengths must be greater than zero');
+    }
+
+    if (input.dnd && !(TIME_PATTERN.test(input.dnd.start) && TIME_PATTERN.test(input.dnd.end))) {
+      throw new Error('Quiet hours must be in HH:MM format');
+    }
+
+    if (input.templateId && !this.plugin.templateManager.getTemplate(input.templateId)) {
+      throw new Error('Template not found');
+    }
+  }
+
+  private normalize(input: ReminderInput): ReminderInput {
+    return {
+      ...input,
+      days: Array.from(new Set(input.days)).sort((a, b) => a - b),
+      secondShotMins: input.secondShotMins || undefined,
+      snoozeOptions: input.snoozeOptions
+        ? Array.from(new Set(input.snoozeOptions)).sort((a, b) => a - b)
+        : undefined,
+      templateId: input.templateId || undefined
+    };
+  }
+}
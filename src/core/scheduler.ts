@@ -1,11 +1,31 @@
 import { Notice } from 'obsidian';
-import type { ReminderConfig } from '../types/interfaces';
+import type { ReminderConfig, Template } from '../types/interfaces';
+import { DEFAULT_SNOOZE_OPTIONS } from '../types/interfaces';
 import type { IWritingMomentumPlugin } from '../types/plugin-interface';
 
+// A reminder missed while the computer slept still fires on wake if it is at most this late
+const MISSED_REMINDER_WINDOW_MS = 2 * 60 * 60 * 1000;
+
+export interface NextReminder {
+  reminder: ReminderConfig;
+  at: number;
+}
+
+// "10m", "1h", "1h 30m"
+export function formatSnooze(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
 export class ReminderScheduler {
   private plugin: IWritingMomentumPlugin;
-  private scheduledReminders: Map<string, number> = new Map();
-  private snoozeQueue: Map<string, number> = new Map();
+  private scheduledReminders: Map<string, number> = new Map(); // reminder ID -> timeout ID
+  private nextFireTimes: Map<string, number> = new Map();      // reminder ID -> timestamp
+  private snoozeQueue: Map<string, number> = new Map();        // reminder ID -> timestamp
+  private pendingTimeouts: Set<number> = new Set();            // snoozes and second shots
+  private checkInterval: number | null = null;
 
   constructor(plugin: IWritingMomentumPlugin) {
     this.plugin = plugin;
@@ -13,52 +33,112 @@ export class ReminderScheduler {
 
   start() {
     this.scheduleAllReminders();
-    // Check every minute for due reminders
-    this.plugin.registerInterval(
-      window.setInterval(() => this.checkReminders(), 60000)
-    );
+    // Check every minute for reminders whose timer was delayed by sleep
+    this.checkInterval = window.setInterval(() => this.checkReminders(), 60000);
+    this.plugin.registerInterval(this.checkInterval);
   }
 
   stop() {
+    for (const timeoutId of this.scheduledReminders.values()) {
+      window.clearTimeout(timeoutId);
+    }
+    this.clearPendingTimeouts();
+    if (this.checkInterval) {
+      window.clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+
     this.scheduledReminders.clear();
+    this.nextFireTimes.clear();
     this.snoozeQueue.clear();
   }
 
+  /**
+   * The reminder that fires next, counting snoozed ones
+   */
+  getNextReminder(): NextReminder | null {
+    let next: NextReminder | null = null;
+
+    const consider = (reminderId: string, at: number) => {
+      const reminder = this.plugin.settings.reminders.find((r: ReminderConfig) => r.id === reminderId);
+      if (reminder && (!next || at < next.at)) {
+        next = { reminder, at };
+      }
+    };
+    this.nextFireTimes.forEach((at, reminderId) => consider(reminderId, at));
+    this.snoozeQueue.forEach((at, reminderId) => consider(reminderId, at));
+
+    return next;
+  }
+
   private scheduleAllReminders() {
     const reminders = this.plugin.settings.reminders.filter((r: ReminderConfig) => r.enabled);
-    
+
     for (const reminder of reminders) {
       this.scheduleReminder(reminder);
     }
   }
 
-  private scheduleReminder(reminder: ReminderConfig) {
-    const now = new Date();
-    const today = now.getDay();
-    
-    if (!reminder.days.includes(today)) {
-      return;
+  /**
+   * Set a timer for the reminder's next occurrence after `after`
+   */
+  private scheduleReminder(reminder: ReminderConfig, after = Date.now()) {
+    const existing = this.scheduledReminders.get(reminder.id);
+    if (existing) {
+      window.clearTimeout(existing);
     }
+    this.scheduledReminders.delete(reminder.id);
+    this.nextFireTimes.delete(reminder.id);
 
-    const [hour, minute] = reminder.time.split(':').map(Number);
-    const reminderTime = new Date();
-    reminderTime.setHours(hour, minute, 0, 0);
+    const fireAt = this.getNextOccurrence(reminder, after);
+    if (fireAt === null) return;
 
-    // If time has passed today, schedule for tomorrow
-    if (reminderTime <= now) {
-      reminderTime.setDate(reminderTime.getDate() + 1);
-    }
+    const timeoutId = window.setTimeout(() => {
+      this.fireReminder(reminder, fireAt);
+    }, fireAt - Date.now());
+
+    this.scheduledReminders.set(reminder.id, timeoutId);
+    this.nextFireTimes.set(reminder.id, fireAt);
+  }
+
+  /**
+   * First time after `after` that falls on one of the reminder's days
+   */
+  private getNextOccurrence(reminder: ReminderConfig, after: number): number | null {
+    if (reminder.days.length === 0) return null;
+
+    const windows = this.plugin.reminderManager.getWritingWindows();
 
-    // Check do-not-disturb
-    if (this.isInDoNotDisturbPeriod(reminder)) {
-      return;
+    // Eight days covers a weekly reminder whose time today has already passed
+    for (let offset = 0; offset <= 7; offset++) {
+      const candidate = new Date(after);
+      candidate.setDate(candidate.getDate() + offset);
+
+      // Adaptive reminders can fire at a different time on each weekday
+      const time = this.plugin.reminderManager.getReminderTime(reminder, candidate.getDay(), windows);
+      if (time === null) return null;
+      candidate.setHours(Math.floor(time / 60), time % 60, 0, 0);
+
+      if (candidate.getTime() > after && reminder.days.includes(candidate.getDay())) {
+        return candidate.getTime();
+      }
     }
 
-    const timeoutId = window.setTimeout(() => {
+    return null;
+  }
+
+  /**
+   * Show a due reminder and schedule its next occurrence
+   */
+  private fireReminder(reminder: ReminderConfig, scheduledAt: number) {
+    this.scheduleReminder(reminder, Math.max(scheduledAt, Date.now()));
+
+    // Timers are late after the computer sleeps; long-past reminders are dropped
+    if (Date.now() - scheduledAt <= MISSED_REMINDER_WINDOW_MS) {
       this.triggerReminder(reminder);
-    }, reminderTime.getTime() - now.getTime());
+    }
 
-    this.scheduledReminders.set(reminder.id, timeoutId);
+    this.plugin.refreshDashboard();
   }
 
   private isInDoNotDisturbPeriod(reminder: ReminderConfig): boolean {
@@ -66,10 +146,10 @@ export class ReminderScheduler {
 
     const now = new Date();
     const currentTime = now.getHours() * 60 + now.getMinutes();
-    
+
     const [startHour, startMin] = reminder.dnd.start.split(':').map(Number);
     const [endHour, endMin] = reminder.dnd.end.split(':').map(Number);
-    
+
     const startTime = startHour * 60 + startMin;
     const endTime = endHour * 60 + endMin;
 
@@ -82,7 +162,43 @@ export class ReminderScheduler {
   }
 
   private triggerReminder(reminder: ReminderConfig) {
-    const message = "Time to write! Click to start your writing session.";
+    // Reminders, snoozes and second shots all stay quiet during a vacation
+    if (this.plugin.dataManager.isOnVacation()) return;
+
+    // Do-not-disturb is checked when the reminder fires, so changes to it apply right away
+    if (this.isInDoNotDisturbPeriod(reminder)) return;
+
+    if (reminder.skipWhenGoalMet && this.plugin.dataManager.hasMetDailyGoal()) return;
+
+    // "Skip today" silences every reminder until the next writing day, across restarts
+    if (this.isSkippedToday()) return;
+
+    if (this.plugin.notifier.getDelivery('reminders') === 'off') return;
+
+    this.showReminder(reminder);
+
+    // Schedule second reminder if configured
+    if (reminder.secondShotMins) {
+      this.setPendingTimeout(() => {
+        if (!this.hasWrittenToday()) {
+          this.triggerReminder(reminder);
+        }
+      }, reminder.secondShotMins * 60 * 1000);
+    }
+  }
+
+  /**
+   * Show a reminder right away, ignoring vacation and do-not-disturb
+   */
+  testReminder(reminder: ReminderConfig) {
+    this.showReminder(reminder);
+  }
+
+  private showReminder(reminder: ReminderConfig) {
+    const template = this.getReminderTemplate(reminder);
+    const message = template
+      ? `Time to write! Click to start a "${template.name}" note.`
+      : "Time to write! Click to start your writing session.";
 
     const notice = new Notice(message, 0); // Persistent notice
 
@@ -94,61 +210,145 @@ export class ReminderScheduler {
       void this.handleReminderClick(reminder);
     };
 
-    // Add snooze button
-    const snoozeBtn = noticeEl.createEl('button', { 
-      text: 'Snooze 10m',
-      cls: 'snooze-btn'
-    });
-    snoozeBtn.onclick = (e) => {
-      e.stopPropagation();
-      this.snoozeReminder(reminder.id, 10);
-      notice.hide();
+    // In the background, also raise a system notification. It cannot carry
+    // buttons, so clicking it only brings Obsidian to the front, where the
+    // notice offers start, snooze and skip.
+    if (this.plugin.notifier.getDelivery('reminders') === 'desktop') {
+      this.plugin.notifier.showDesktop('Time to write', 'Click to start, snooze or skip today.');
+    }
+
+    const actionsEl = noticeEl.createDiv({ cls: 'reminder-actions' });
+    const addAction = (text: string, cls: string, action: () => void) => {
+      const button = actionsEl.createEl('button', { text, cls });
+      button.onclick = (e) => {
+        e.stopPropagation();
+        notice.hide();
+        action();
+      };
     };
 
-    // Schedule second reminder if configured
-    if (reminder.secondShotMins) {
-      setTimeout(() => {
-        if (!this.hasWrittenToday()) {
-          this.triggerReminder(reminder);
-        }
-      }, reminder.secondShotMins * 60 * 1000);
+    addAction('Start', 'mod-cta', () => void this.handleReminderClick(reminder));
+
+    // Add snooze buttons
+    for (const minutes of reminder.snoozeOptions || DEFAULT_SNOOZE_OPTIONS) {
+      addAction(`Snooze ${formatSnooze(minutes)}`, 'snooze-btn', () => this.snoozeReminder(reminder.id, minutes));
     }
+
+    addAction('Skip today', 'skip-btn', () => void this.skipToday());
   }
 
+  /**
+   * The reminder's own template, or the active one when it has none
+   */
+  private getReminderTemplate(reminder: ReminderConfig): Template | null {
+    const templateManager = this.plugin.templateManager;
+    const template = reminder.templateId ? templateManager.getTemplate(reminder.templateId) : null;
+    return template || templateManager.getActiveTemplate();
+  }
+
+  /**
+   * Create the reminder's note, open it and start a session toward the profile's target
+   */
   private async handleReminderClick(reminder: ReminderConfig) {
     try {
-      await this.plugin.templateEngine.createNoteFromTemplate();
+      // Reminder sessions aim for the profile's target, whatever the template's own target
+      await this.plugin.templateEngine.createNoteFromTemplate(undefined, this.getReminderTemplate(reminder) || undefined, false);
     } catch (error) {
       console.error('Failed to create note from reminder:', error);
       new Notice('Failed to create writing note. Please try again.');
     }
   }
 
+  /**
+   * Record that today is skipped and keep the remaining reminders quiet
+   */
+  private async skipToday() {
+    const now = Date.now();
+    this.clearPendingTimeouts();
+    this.snoozeQueue.clear();
+
+    await this.plugin.dataManager.addSession({
+      id: `session-${now}`,
+      date: this.plugin.dataManager.getToday(),
+      startTime: now,
+      endTime: now,
+      wordCount: 0,
+      files: [],
+      completed: false,
+      status: 'day-skipped',
+      profileId: this.plugin.activeProfile?.id
+    });
+
+    new Notice('Skipping today. Reminders resume tomorrow.');
+    this.plugin.refreshDashboard();
+  }
+
+  // Today's skip is a recorded session, so it outlives a restart.
+  // Sessions that were skipped or cut short do not count; only "Skip today" does.
+  private isSkippedToday(): boolean {
+    const today = this.plugin.dataManager.getToday();
+    return this.plugin.dataManager.getAllSessions().some(session =>
+      session.date === today && session.status === 'day-skipped'
+    );
+  }
+
   snoozeReminder(reminderId: string, minutes: number) {
     const snoozeTime = Date.now() + (minutes * 60 * 1000);
     this.snoozeQueue.set(reminderId, snoozeTime);
-    
-    setTimeout(() => {
+
+    this.setPendingTimeout(() => {
       const reminder = this.plugin.settings.reminders.find((r: ReminderConfig) => r.id === reminderId);
+      this.snoozeQueue.delete(reminderId);
       if (reminder) {
         this.triggerReminder(reminder);
       }
-      this.snoozeQueue.delete(reminderId);
+      this.plugin.refreshDashboard();
     }, minutes * 60 * 1000);
+
+    this.plugin.refreshDashboard();
+  }
+
+  private clearPendingTimeouts() {
+    for (const timeoutId of this.pendingTimeouts) {
+      window.clearTimeout(timeoutId);
+    }
+    this.pendingTimeouts.clear();
+  }
+
+  private setPendingTimeout(callback: () => void, delay: number) {
+    const timeoutId = window.setTimeout(() => {
+      this.pendingTimeouts.delete(timeoutId);
+      callback();
+    }, delay);
+    this.pendingTimeouts.add(timeoutId);
   }
 
+  /**
+   * Fire reminders whose timer has not gone off on time, which happens
+   * when the computer wakes from sleep
+   */
   private checkReminders() {
-    // This runs every minute to catch any missed reminders
-    // Implementation would check for any reminders that should have fired
+    const now = Date.now();
+
+    for (const [reminderId, fireAt] of Array.from(this.nextFireTimes.entries())) {
+      if (fireAt > now) continue;
+
+      const reminder = this.plugin.settings.reminders.find((r: ReminderConfig) => r.id === reminderId);
+      if (reminder) {
+        this.fireReminder(reminder, fireAt);
+      } else {
+        this.nextFireTimes.delete(reminderId);
+      }
+    }
   }
 
   private hasWrittenToday(): boolean {
     const sessions = this.plugin.dataManager.getTodaysSessions();
-    return sessions.some(session => session.completed && session.wordCount > 0);
+    return sessions.some(session => this.plugin.dataManager.isProductive(session));
   }
 
   reschedule() {
     this.stop();
     this.start();
   }
-}
\ No newline at end of file
+}
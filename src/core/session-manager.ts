@@ -1,131 +1,541 @@
-import { TFile, Notice } from 'obsidian';
-import type { WritingSession } from '../types/interfaces';
+import { TFile, TAbstractFile, MarkdownView, Notice } from 'obsidian';
+import { DEFAULT_SETTINGS } from '../types/interfaces';
+import type { WritingSession, WritingProfile, UnitType, PomodoroPhase, PomodoroState } from '../types/interfaces';
 import type { IWritingMomentumPlugin } from '../types/plugin-interface';
+import { ToastManager } from '../ui/toast';
+import type { ToastOptions } from '../ui/toast';
+import { playChime } from '../ui/chime';
+import { IncrementalWordCounter } from './incremental-counter';
+import type { FileSnapshot } from './incremental-counter';
+import type { EditCount } from './text-diff';
+import { WordCounter, countIn, emptyCount, isCountUnit } from './word-counter';
+import type { TextCount } from './word-counter';
+import { matchesPathPattern } from './glob';
+import { hasFrontmatter, hasTag } from './note-matcher';
+import { PomodoroTimer } from './pomodoro';
+import type { PomodoroLengths } from './pomodoro';
+
+// A file as it was when it joined the session
+interface FileBaseline {
+  count: TextCount;
+  snapshot: FileSnapshot;
+}
+
+// The last full diff of a file against its baseline, and its word total at the time
+interface FileDiff {
+  edits: EditCount;
+  words: number;
+}
+
+// Diffing a large file is too slow for every keystroke, so it waits for a pause in typing
+const DIFF_DELAY_MS = 1000;
 
 export class SessionManager {
   private plugin: IWritingMomentumPlugin;
   private currentSession: WritingSession | null = null;
-  private wordCountInterval: number | null = null;
-  private sessionStartContent: Map<string, string> = new Map();
+  private timeInterval: number | null = null;
+  private counter: IncrementalWordCounter;
+  private baselines: Map<string, FileBaseline> = new Map();
+  private lastDiffs: Map<string, FileDiff> = new Map();
+  private staleDiffs: Set<string> = new Set();
+  private diffTimer: number | null = null;
+  private toastManager: ToastManager;
+  private activeProfile: WritingProfile | null = null;
+  private reachedMilestones: Set<number> = new Set();
+  private lastEditAt = 0;
+
+  private pomodoro: PomodoroTimer | null = null;
 
   constructor(plugin: IWritingMomentumPlugin) {
     this.plugin = plugin;
+    this.toastManager = new ToastManager();
+    this.counter = this.createCounter();
+    this.registerEvents();
   }
 
+  /**
+   * Count words as they are typed instead of polling the vault.
+   * Editor changes cover the active note; vault modifications cover
+   * edits from sync, other panes and other plugins.
+   */
+  private registerEvents() {
+    const { workspace, vault } = this.plugin.app;
+
+    this.plugin.registerEvent(
+      workspace.on('editor-change', (editor, info) => {
+        const path = info.file?.path;
+        if (path && this.isTracking(path)) {
+          this.handleContentChange(path, editor.getValue());
+        }
+      })
+    );
+
+    this.plugin.registerEvent(
+      vault.on('modify', (file: TAbstractFile) => {
+        if (file instanceof TFile && this.isTracking(file.path)) {
+          void this.plugin.app.vault.cachedRead(file).then(content => {
+            this.handleContentChange(file.path, content);
+          });
+        }
+      })
+    );
+
+    this.plugin.registerEvent(
+      vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+        this.handleRename(file.path, oldPath);
+      })
+    );
+  }
+
+  // Counting rules are read once per session so baseline and live counts agree
+  private createCounter(): IncrementalWordCounter {
+    return new IncrementalWordCounter(new WordCounter(this.plugin.settings.wordCount));
+  }
+
+  private isTracking(path: string): boolean {
+    return this.currentSession !== null && this.currentSession.files.includes(path);
+  }
+
+  setActiveProfile(profile: WritingProfile | null) {
+    this.activeProfile = profile;
+  }
+
+  getActiveProfile(): WritingProfile | null {
+    return this.activeProfile;
+  }
+
+  /**
+   * Start tracking a session on a file.
+   * Without an explicit target, the active profile's recommendation is used.
+   */
   startSession(filePath: string, templateId?: string, targetWordCount?: number) {
     if (this.currentSession) {
       this.endSession();
     }
 
     const sessionId = `session-${Date.now()}`;
-    const today = new Date().toISOString().split('T')[0];
+    const today = this.plugin.dataManager.getToday();
+
+    let targetCount = targetWordCount;
+    let targetUnit: UnitType = 'words';
+    if (targetCount === undefined && this.activeProfile) {
+      targetCount = this.activeProfile.recommendation.target.value;
+      targetUnit = this.activeProfile.recommendation.target.type;
+    }
 
     this.currentSession = {
       id: sessionId,
       date: today,
       startTime: Date.now(),
       wordCount: 0,
+      chars: 0,
       templateUsed: templateId,
       files: [filePath],
       completed: false,
-      targetCount: targetWordCount,
+      status: 'ongoing',
+      profileId: this.activeProfile?.id,
+      targetCount: targetCount && targetCount > 0 ? targetCount : undefined,
+      targetUnit,
+      active: true,
+      paused: false,
+      totalPausedDuration: 0,
+      filePath
     };
+    this.reachedMilestones.clear();
+    this.lastEditAt = Date.now();
+    this.counter = this.createCounter();
 
-    // Store initial content for word count calculation
+    // Store initial counts to measure new words against
     void this.captureInitialContent(filePath);
 
-    // Start monitoring word count
-    this.startWordCountMonitoring();
+    this.startTracking();
 
-    if (this.plugin.settings.ui.notifications) {
-      new Notice(`Writing session started! Target: ${targetWordCount || 'No limit'} words`);
-    }
+    this.startPomodoro();
 
-    // Update status bar
-    this.updateStatusBar();
+    this.showStartMessage();
+    this.plugin.updateStatusBar();
+    this.plugin.refreshDashboard();
   }
 
   private async captureInitialContent(filePath: string) {
     try {
+      // Prefer the open editor, which may be ahead of the file on disk
+      const view = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
+      if (view && view.file?.path === filePath) {
+        this.setBaseline(filePath, view.editor.getValue());
+        return;
+      }
+
       const file = this.plugin.app.vault.getAbstractFileByPath(filePath);
       if (file instanceof TFile) {
-        const content = await this.plugin.app.vault.read(file);
-        this.sessionStartContent.set(filePath, content);
+        const content = await this.plugin.app.vault.cachedRead(file);
+        this.setBaseline(filePath, content);
       }
     } catch (error) {
       console.error('Failed to capture initial content:', error);
-      this.sessionStartContent.set(filePath, '');
+      this.baselines.set(filePath, { count: emptyCount(), snapshot: [] });
     }
   }
 
-  private startWordCountMonitoring() {
-    if (this.wordCountInterval) {
-      window.clearInterval(this.wordCountInterval);
+  private setBaseline(filePath: string, content: string) {
+    const count = this.counter.update(filePath, content);
+    this.baselines.set(filePath, { count, snapshot: this.counter.snapshot(filePath) });
+    this.lastDiffs.delete(filePath);
+    this.staleDiffs.delete(filePath);
+  }
+
+  private handleContentChange(path: string, content: string) {
+    // Changes before the baseline is captured are part of the starting text
+    if (!this.baselines.has(path)) return;
+
+    this.counter.update(path, content);
+    this.staleDiffs.add(path);
+    this.scheduleDiff();
+    this.lastEditAt = Date.now();
+
+    if (this.currentSession?.autoPaused) {
+      this.unpause();
+      this.plugin.refreshDashboard();
     }
+    this.updateSessionWordCount();
+  }
+
+  private handleRename(newPath: string, oldPath: string) {
+    this.counter.rename(oldPath, newPath);
+
+    const baseline = this.baselines.get(oldPath);
+    if (baseline) {
+      this.baselines.delete(oldPath);
+      this.baselines.set(newPath, baseline);
+    }
+    const lastDiff = this.lastDiffs.get(oldPath);
+    if (lastDiff) {
+      this.lastDiffs.delete(oldPath);
+      this.lastDiffs.set(newPath, lastDiff);
+    }
+    if (this.staleDiffs.delete(oldPath)) {
+      this.staleDiffs.add(newPath);
+    }
+
+    if (this.currentSession) {
+      this.currentSession.files = this.currentSession.files.map(path => path === oldPath ? newPath : path);
+      if (this.currentSession.filePath === oldPath) {
+        this.currentSession.filePath = newPath;
+      }
+    }
+  }
 
-    this.wordCountInterval = window.setInterval(() => {
-      void this.updateSessionWordCount();
-    }, 5000); // Update every 5 seconds
+  private startTracking() {
+    this.stopTracking();
 
-    // Register cleanup
-    this.plugin.registerInterval(this.wordCountInterval);
+    this.timeInterval = window.setInterval(() => {
+      this.checkTimeProgress();
+    }, 1000);
+    this.plugin.registerInterval(this.timeInterval);
   }
 
-  private async updateSessionWordCount() {
+  private stopTracking() {
+    if (this.timeInterval) {
+      window.clearInterval(this.timeInterval);
+      this.timeInterval = null;
+    }
+  }
+
+  private scheduleDiff() {
+    if (this.diffTimer) window.clearTimeout(this.diffTimer);
+    this.diffTimer = window.setTimeout(() => {
+      this.diffTimer = null;
+      this.updateSessionWordCount(true);
+    }, DIFF_DELAY_MS);
+  }
+
+  private cancelDiff() {
+    if (this.diffTimer) {
+      window.clearTimeout(this.diffTimer);
+      this.diffTimer = null;
+    }
+  }
+
+  /**
+   * Recompute the session totals from the cached per-file counts.
+   * Unless exact, files edited since their last diff are estimated.
+   */
+  private updateSessionWordCount(exact = false) {
+    if (!this.currentSession || this.currentSession.paused) return;
+
+    this.recountWords(exact);
+    this.plugin.updateStatusBar();
+
+    const unit = this.getTargetUnit();
+    if (isCountUnit(unit)) {
+      this.checkTargetProgress(countIn(this.currentSession, unit));
+    }
+  }
+
+  private recountWords(exact: boolean) {
     if (!this.currentSession) return;
 
-    let totalNewWords = 0;
+    const added = emptyCount();
+    let wordsDeleted = 0;
+    let wordsChanged = 0;
+    const fileWords: Record<string, number> = {};
 
     for (const filePath of this.currentSession.files) {
-      const file = this.plugin.app.vault.getAbstractFileByPath(filePath);
-      if (file instanceof TFile) {
-        try {
-          const currentContent = await this.plugin.app.vault.read(file);
-          const initialContent = this.sessionStartContent.get(filePath) || '';
-          const newWords = this.calculateNewWords(initialContent, currentContent);
-          totalNewWords += newWords;
-        } catch (error) {
-          console.error(`Failed to read file ${filePath}:`, error);
+      const baseline = this.baselines.get(filePath);
+      const current = this.counter.get(filePath);
+      if (baseline && current) {
+        // Words come from diffing against the baseline, so deleting text never cancels out new writing
+        const edits = this.getEdits(filePath, baseline, current.words, exact);
+        added.words += edits.added;
+        fileWords[filePath] = edits.added;
+        wordsDeleted += edits.deleted;
+        wordsChanged += edits.changed;
+        added.chars += Math.max(0, current.chars - baseline.count.chars);
+        added.mixed += Math.max(0, current.mixed - baseline.count.mixed);
+      }
+    }
+
+    this.currentSession.wordCount = added.words;
+    this.currentSession.wordsDeleted = wordsDeleted;
+    this.currentSession.wordsChanged = wordsChanged;
+    this.currentSession.fileWords = fileWords;
+    this.currentSession.chars = added.chars;
+    this.currentSession.mixed = added.mixed;
+  }
+
+  private getEdits(filePath: string, baseline: FileBaseline, words: number, exact: boolean): EditCount {
+    const lastDiff = this.lastDiffs.get(filePath) || { edits: { added: 0, deleted: 0, changed: 0 }, words: baseline.count.words };
+    if (!this.staleDiffs.has(filePath)) return lastDiff.edits;
+
+    if (exact) {
+      const edits = this.counter.diff(filePath, baseline.snapshot);
+      this.lastDiffs.set(filePath, { edits, words });
+      this.staleDiffs.delete(filePath);
+      return edits;
+    }
+
+    // Until the next diff, words gained count as added and words lost as deleted
+    const net = words - lastDiff.words;
+    return {
+      added: lastDiff.edits.added + Math.max(0, net),
+      deleted: lastDiff.edits.deleted + Math.max(0, -net),
+      changed: lastDiff.edits.changed
+    };
+  }
+
+  private checkTimeProgress() {
+    if (!this.currentSession) return;
+    // Keep the countdown moving, including during breaks spent away from the keyboard
+    if (this.pomodoro) this.plugin.updateStatusBar();
+
+    // Manual pauses stop the clock; idle pauses keep watching for the idle timeout
+    if (this.currentSession.paused && !this.currentSession.autoPaused) return;
+
+    if (this.checkIdleTimeout()) return;
+    if (this.currentSession.paused) return;
+
+    const idlePauseMin = this.plugin.settings.autoSession?.idlePauseMin ?? DEFAULT_SETTINGS.autoSession.idlePauseMin;
+    if (idlePauseMin > 0 && Date.now() - this.lastEditAt >= idlePauseMin * 60000) {
+      this.pauseForIdle();
+      return;
+    }
+
+    if (this.getTargetUnit() === 'minutes') {
+      this.checkTargetProgress(this.getElapsedMs() / 60000);
+    }
+  }
+
+  /**
+   * Pause from the last edit on, so the whole idle gap is left out of active time.
+   * The session resumes on its own with the next edit.
+   */
+  private pauseForIdle() {
+    if (!this.currentSession || this.currentSession.paused) return;
+
+    this.currentSession.paused = true;
+    this.currentSession.autoPaused = true;
+    this.currentSession.pausedTime = this.lastEditAt;
+
+    this.plugin.updateStatusBar();
+    this.plugin.refreshDashboard();
+  }
+
+  /**
+   * End the session once nothing has been edited for the configured idle timeout.
+   * The idle stretch is not counted as writing time.
+   */
+  private checkIdleTimeout(): boolean {
+    const timeoutMin = this.plugin.settings.autoSession?.idleTimeoutMin || 0;
+    if (!this.currentSession || timeoutMin <= 0) return false;
+
+    if (Date.now() - this.lastEditAt < timeoutMin * 60000) return false;
+
+    this.pauseForIdle();
+    this.toastManager.info(`Session ended after ${timeoutMin} minutes without edits`);
+
+    if (this.plugin.dataManager.getGoalProgress(this.currentSession) > 0) {
+      this.completeSession();
+    } else {
+      this.endSession();
+    }
+    return true;
+  }
+
+  /**
+   * Show milestone toasts and auto-complete once the session target is reached
+   */
+  private checkTargetProgress(current: number) {
+    if (!this.currentSession || !this.currentSession.targetCount) return;
+
+    const progress = (current / this.currentSession.targetCount) * 100;
+    const notifyLevel = this.activeProfile?.notifyLevel || 'mid';
+    const unit = this.getTargetUnit();
+
+    if (progress >= 50 && !this.reachedMilestones.has(50) && progress < 100) {
+      this.reachedMilestones.add(50);
+      if (notifyLevel !== 'low') {
+        if (isCountUnit(unit)) {
+          this.notifyMilestone({ message: 'Halfway there! Keep going! 🚀', variant: 'info', progress: 50, duration: 3000 });
+        } else {
+          this.notifyMilestone({ message: 'Halfway through your session! ⏱️', variant: 'info' });
         }
       }
     }
 
-    this.currentSession.wordCount = Math.max(0, totalNewWords);
-    this.updateStatusBar();
+    if (progress >= 75 && !this.reachedMilestones.has(75) && progress < 100) {
+      this.reachedMilestones.add(75);
+      if (notifyLevel === 'high' && isCountUnit(unit)) {
+        this.notifyMilestone({ message: 'Almost done! 75% complete! 💪', variant: 'success', progress: 75, duration: 3000 });
+      }
+    }
+
+    if (progress >= 90 && !this.reachedMilestones.has(90) && progress < 100) {
+      this.reachedMilestones.add(90);
+      if (isCountUnit(unit)) {
+        this.notifyMilestone({ message: 'Final push! 90% there! 🎯', variant: 'milestone', progress: 90, duration: 3000 });
+      } else {
+        this.notifyMilestone({ message: 'Last minute! Finish strong! 🏁', variant: 'warn' });
+      }
+    }
 
-    // Check if target is reached
-    if (this.currentSession.targetCount && 
-        this.currentSession.wordCount >= this.currentSession.targetCount && 
-        !this.currentSession.completed) {
+    if (progress >= 100 && !this.currentSession.completed) {
       this.completeSession();
     }
   }
 
-  private calculateNewWords(initialContent: string, currentContent: string): number {
-    const initialWords = this.countWords(initialContent);
-    const currentWords = this.countWords(currentContent);
-    return Math.max(0, currentWords - initialWords);
+  /**
+   * Focus and break lengths from the pomodoro settings, falling back to the
+   * profile's session and break lengths. Null when there is no focus length.
+   */
+  private getPomodoroLengths(): PomodoroLengths | null {
+    const settings = { ...DEFAULT_SETTINGS.pomodoro, ...this.plugin.settings.pomodoro };
+    if (!settings.enabled) return null;
+
+    const focusMin = settings.focusMin || this.activeProfile?.recommendation.sessionLengthMin || 0;
+    if (focusMin <= 0) return null;
+
+    return {
+      focusMin,
+      shortBreakMin: settings.shortBreakMin || this.activeProfile?.breakMin || 5,
+      longBreakMin: settings.longBreakMin,
+      longBreakEvery: settings.longBreakEvery
+    };
+  }
+
+  private startPomodoro() {
+    this.stopPomodoro();
+
+    const lengths = this.getPomodoroLengths();
+    if (!lengths) return;
+
+    this.pomodoro = new PomodoroTimer(lengths, (ended, next) => this.onPomodoroPhaseEnd(ended, next, lengths));
+    this.pomodoro.start();
+  }
+
+  private stopPomodoro() {
+    this.pomodoro?.stop();
+    this.pomodoro = null;
   }
 
-  private countWords(text: string): number {
-    // Remove frontmatter
-    const withoutFrontmatter = text.replace(/^---[\s\S]*?---\n?/, '');
-    // Count words
-    return withoutFrontmatter.trim().split(/\s+/).filter(word => word.length > 0).length;
+  getPomodoroState(): PomodoroState | null {
+    return this.pomodoro?.getState() ?? null;
+  }
+
+  private onPomodoroPhaseEnd(ended: PomodoroPhase, next: PomodoroPhase, lengths: PomodoroLengths) {
+    if (!this.currentSession) return;
+
+    if ({ ...DEFAULT_SETTINGS.pomodoro, ...this.plugin.settings.pomodoro }.sound) {
+      playChime();
+    }
+
+    if (ended === 'focus') {
+      const breakMin = next === 'longBreak' ? lengths.longBreakMin : lengths.shortBreakMin;
+      const completed = this.pomodoro?.getCompleted() || 0;
+      this.toastManager.break(
+        next === 'longBreak'
+          ? `${completed} pomodoros done! Take a ${breakMin} minute break 🌴`
+          : `Time for a ${breakMin} minute break! 🌟`,
+        5000
+      );
+    } else {
+      this.toastManager.info('Break over! Back to writing! ✍️');
+    }
+
+    this.plugin.updateStatusBar();
+    this.plugin.refreshDashboard();
+  }
+
+  pauseSession() {
+    if (!this.currentSession || this.currentSession.paused) return;
+
+    this.currentSession.paused = true;
+    this.currentSession.pausedTime = Date.now();
+    this.stopTracking();
+    this.pomodoro?.pause();
+
+    this.toastManager.info('Session paused ⏸️');
+    this.plugin.updateStatusBar();
+    this.plugin.refreshDashboard();
+  }
+
+  resumeSession() {
+    if (!this.currentSession || !this.currentSession.paused) return;
+
+    this.unpause();
+    this.lastEditAt = Date.now();
+    this.startTracking();
+    this.pomodoro?.resume();
+
+    // Pick up edits made while paused
+    this.updateSessionWordCount(true);
+
+    this.toastManager.success('Session resumed! ▶️');
+    this.plugin.updateStatusBar();
+    this.plugin.refreshDashboard();
+  }
+
+  private unpause() {
+    if (!this.currentSession) return;
+
+    if (this.currentSession.pausedTime) {
+      this.currentSession.totalPausedDuration =
+        (this.currentSession.totalPausedDuration || 0) + (Date.now() - this.currentSession.pausedTime);
+    }
+    this.currentSession.paused = false;
+    this.currentSession.autoPaused = undefined;
+    this.currentSession.pausedTime = undefined;
   }
 
   completeSession() {
     if (!this.currentSession) return;
 
-    this.currentSession.completed = true;
-    this.currentSession.endTime = Date.now();
+    const session = this.currentSession;
+    const duration = Math.round(this.getElapsedMs() / 60000);
 
-    // Save session
-    void this.plugin.dataManager.addSession(this.currentSession);
+    this.finalizeSession('completed');
 
     // Update continuous writing counter if enabled
     if (this.plugin.settings.continuousWriting.enabled) {
-      const duration = Math.round((Date.now() - this.currentSession.startTime) / 60000);
       const targetDuration = this.plugin.settings.continuousWriting.sessionDuration;
 
       // Only count if session met minimum duration requirement
@@ -144,8 +554,11 @@ export class SessionManager {
 
     // Show completion message
     if (this.plugin.settings.ui.notifications) {
-      const duration = Math.round((Date.now() - this.currentSession.startTime) / 60000);
-      let message = `Great job! You wrote ${this.currentSession.wordCount} words in ${duration} minutes.`;
+      let message = `🎉 Session complete! ${session.wordCount} words in ${duration} minutes.`;
+      const edited = (session.wordsChanged || 0) + (session.wordsDeleted || 0);
+      if (edited > 0) {
+        message += ` ${edited} words edited.`;
+      }
 
       if (this.plugin.settings.continuousWriting.enabled) {
         const currentCount = this.plugin.settings.continuousWriting.currentCount;
@@ -158,48 +571,86 @@ export class SessionManager {
         }
       }
 
-      new Notice(message, 5000);
+      this.notifyMilestone({ message, variant: 'milestone', duration: 5000 });
     }
+  }
 
-    this.endSession();
+  skipSession() {
+    if (!this.currentSession) return;
+
+    this.finalizeSession('skipped');
+    this.toastManager.info('Session skipped');
   }
 
+  /**
+   * End the session without marking it completed (e.g. on unload or when replaced)
+   */
   endSession() {
-    if (this.currentSession && !this.currentSession.completed) {
-      this.currentSession.endTime = Date.now();
-      void this.plugin.dataManager.addSession(this.currentSession);
-    }
+    if (!this.currentSession) return;
 
-    this.currentSession = null;
-    this.sessionStartContent.clear();
+    this.finalizeSession('ended');
+  }
 
-    if (this.wordCountInterval) {
-      window.clearInterval(this.wordCountInterval);
-      this.wordCountInterval = null;
+  private finalizeSession(status: 'completed' | 'skipped' | 'ended') {
+    if (!this.currentSession) return;
+
+    // Settle estimated counts before anything reads the final words
+    this.cancelDiff();
+    if (!this.currentSession.paused) this.recountWords(true);
+
+    // A running sprint ends with its session, while the session's words are still there
+    this.plugin.sprintManager.handleSessionEnd();
+
+    const session = this.currentSession;
+    if (session.paused && session.pausedTime) {
+      session.totalPausedDuration = (session.totalPausedDuration || 0) + (Date.now() - session.pausedTime);
     }
 
-    this.updateStatusBar();
+    session.endTime = Date.now();
+    session.activeMs = Math.max(0, session.endTime - session.startTime - (session.totalPausedDuration || 0));
+    session.completed = status === 'completed';
+    session.status = status;
+    session.active = false;
+    session.paused = false;
+    session.autoPaused = undefined;
+    session.pausedTime = undefined;
+    session.pomodoros = this.pomodoro?.getCompleted() || undefined;
+    this.plugin.projectManager.attributeSession(session);
+
+    void this.plugin.dataManager.addSession(session);
+
+    this.currentSession = null;
+    this.baselines.clear();
+    this.lastDiffs.clear();
+    this.staleDiffs.clear();
+    this.counter.clear();
+    this.reachedMilestones.clear();
+    this.stopTracking();
+    this.stopPomodoro();
+
+    this.plugin.updateStatusBar();
+    this.plugin.refreshDashboard();
   }
 
-  pauseSession() {
-    if (this.currentSession) {
-      if (this.wordCountInterval) {
-        window.clearInterval(this.wordCountInterval);
-        this.wordCountInterval = null;
-      }
-      new Notice('Writing session paused');
-    }
+  getCurrentSession(): WritingSession | null {
+    return this.currentSession;
   }
 
-  resumeSession() {
-    if (this.currentSession && !this.wordCountInterval) {
-      this.startWordCountMonitoring();
-      new Notice('Writing session resumed');
+  /**
+   * Active writing time of the current session, excluding manual pauses and idle gaps
+   */
+  getElapsedMs(): number {
+    if (!this.currentSession) return 0;
+
+    let elapsed = Date.now() - this.currentSession.startTime - (this.currentSession.totalPausedDuration || 0);
+    if (this.currentSession.paused && this.currentSession.pausedTime) {
+      elapsed -= Date.now() - this.currentSession.pausedTime;
     }
+    return Math.max(0, elapsed);
   }
 
-  getCurrentSession(): WritingSession | null {
-    return this.currentSession;
+  private getTargetUnit(): UnitType {
+    return this.currentSession?.targetUnit || 'words';
   }
 
   async addFileToCurrentSession(filePath: string) {
@@ -212,71 +663,87 @@ export class SessionManager {
   setSessionTarget(wordCount: number) {
     if (this.currentSession) {
       this.currentSession.targetCount = wordCount;
-      this.updateStatusBar();
-    }
-  }
-
-  private updateStatusBar() {
-    if (!this.plugin.statusBarItem) return;
-
-    if (this.currentSession) {
-      const progress = this.currentSession.targetCount 
-        ? ` (${Math.min(100, Math.round((this.currentSession.wordCount / this.currentSession.targetCount) * 100))}%)`
-        : '';
-      
-      this.plugin.statusBarItem.setText(
-        `✍️ ${this.currentSession.wordCount}${this.currentSession.targetCount ? `/${this.currentSession.targetCount}` : ''} words${progress}`
-      );
-    } else {
-      const todaysCount = this.plugin.dataManager.getTodaysWordCount();
-      this.plugin.statusBarItem.setText(`📊 ${todaysCount} words today`);
+      this.currentSession.targetUnit = 'words';
+      this.plugin.updateStatusBar();
     }
   }
 
   getSessionStats(): { duration: number; wordCount: number; wpm: number; targetProgress: number | null } | null {
     if (!this.currentSession) return null;
 
-    const duration = Date.now() - this.currentSession.startTime;
-    const minutes = Math.round(duration / 60000);
-    const wpm = minutes > 0 ? Math.round(this.currentSession.wordCount / minutes) : 0;
+    const activeMinutes = this.getElapsedMs() / 60000;
+    const wpm = activeMinutes >= 1 ? Math.round(this.currentSession.wordCount / activeMinutes) : 0;
 
     return {
-      duration: minutes,
+      duration: Math.round(activeMinutes),
       wordCount: this.currentSession.wordCount,
       wpm,
-      targetProgress: this.currentSession.targetCount
-        ? (this.currentSession.wordCount / this.currentSession.targetCount) * 100
-        : null
+      targetProgress: this.getSessionProgress()
     };
   }
 
-  // Auto-session management for file tracking
+  /**
+   * Progress towards the session target in percent, or null without a target
+   */
+  getSessionProgress(): number | null {
+    if (!this.currentSession || !this.currentSession.targetCount) return null;
+
+    const current = this.getTargetUnit() === 'minutes'
+      ? this.getElapsedMs() / 60000
+      : this.currentSession.wordCount;
+    return Math.min(100, (current / this.currentSession.targetCount) * 100);
+  }
+
+  private notifyMilestone(options: ToastOptions) {
+    this.plugin.notifier.notify('milestones', { title: 'Writing milestone', ...options });
+  }
+
+  private showStartMessage() {
+    if (!this.currentSession || !this.plugin.settings.ui.notifications) return;
+
+    const notifyLevel = this.activeProfile?.notifyLevel || 'mid';
+    if (notifyLevel === 'low') return;
+
+    const target = this.currentSession.targetCount
+      ? `${this.currentSession.targetCount} ${this.getTargetUnit()}`
+      : 'No limit';
+    this.toastManager.success(`Session started! Target: ${target}`, 3000);
+  }
+
+  /**
+   * Start or extend a session when a note matching the auto-session rules is opened
+   */
   async handleFileOpen(file: TFile) {
-    if (this.shouldAutoStartSession(file)) {
-      this.startSession(file.path);
-    } else if (this.currentSession && !this.currentSession.files.includes(file.path)) {
+    const rules = this.plugin.settings.autoSession;
+    if (!rules || !this.matchesAutoSessionRules(file)) return;
+
+    if (!this.currentSession) {
+      if (rules.autoStart) {
+        this.startSession(file.path);
+      }
+    } else if (rules.autoAttach && !this.currentSession.files.includes(file.path)) {
       await this.addFileToCurrentSession(file.path);
     }
   }
 
-  private shouldAutoStartSession(file: TFile): boolean {
-    // Auto-start if no current session and file is in trackable location
-    if (this.currentSession) return false;
-    
-    // Check if file matches writing patterns
-    const writingExtensions = ['md', 'txt'];
-    if (!writingExtensions.includes(file.extension)) return false;
+  /**
+   * A note matches when any folder, tag or frontmatter rule applies and no exclusion does
+   */
+  private matchesAutoSessionRules(file: TFile): boolean {
+    const rules = this.plugin.settings.autoSession;
+    const app = this.plugin.app;
 
-    // Check if it's in a writing folder (Journal, Blog, Writing, etc.)
-    const writingFolders = ['Journal', 'Blog', 'Writing', 'Draft'];
-    return writingFolders.some(folder => file.path.toLowerCase().includes(folder.toLowerCase()));
+    if (rules.exclude.some(pattern => matchesPathPattern(file.path, pattern))) return false;
+
+    return rules.folders.some(pattern => matchesPathPattern(file.path, pattern)) ||
+      rules.tags.some(tag => hasTag(app, file, tag)) ||
+      rules.frontmatter.some(rule => hasFrontmatter(app, file, rule));
   }
 
   cleanup() {
     this.endSession();
-    if (this.wordCountInterval) {
-      window.clearInterval(this.wordCountInterval);
-      this.wordCountInterval = null;
-    }
+    this.stopTracking();
+    this.stopPomodoro();
+    this.toastManager.cleanup();
   }
-}
\ No newline at end of file
+}
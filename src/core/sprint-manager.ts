@@ -0,0 +1,228 @@
+import type { PersonalBests, SprintResult, SprintState } from '../types/interfaces';
+import type { IWritingMomentumPlugin } from '../types/plugin-interface';
+import { SprintResultsModal } from '../ui/sprint-results-modal';
+
+// WPM is sampled this often for the sparkline
+const SAMPLE_INTERVAL_MS = 30000;
+// A trailing interval shorter than this is too noisy to plot
+const MIN_PARTIAL_SAMPLE_MS = 5000;
+
+interface ActiveSprint {
+  id: string;
+  durationMin: number;
+  targetWords?: number;
+  startTime: number;
+  endsAt: number;
+  startWords: number;     // session words when the sprint began
+  samples: number[];
+  lastSampleAt: number;
+  lastSampleWords: number;
+  sessionId: string;
+}
+
+/**
+ * Timed writing sprints on top of the current session. The countdown runs
+ * on the clock, so pausing the session does not stop a sprint.
+ */
+export class SprintManager {
+  private plugin: IWritingMomentumPlugin;
+  private sprint: ActiveSprint | null = null;
+  private tickInterval: number | null = null;
+
+  constructor(plugin: IWritingMomentumPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Start a sprint in the running session, or in a new session on the active note
+   */
+  start(durationMin: number, targetWords?: number) {
+    if (this.sprint) {
+      throw new Error('A sprint is already running');
+    }
+    if (!(durationMin > 0)) {
+      throw new Error('Sprint length must be greater than zero');
+    }
+    if (targetWords !== undefined && !(targetWords >= 0)) {
+      throw new Error('Word target cannot be negative');
+    }
+
+    const sessionManager = this.plugin.sessionManager;
+    if (!sessionManager.getCurrentSession()) {
+      const file = this.plugin.app.workspace.getActiveFile();
+      if (!file) {
+        throw new Error('Open a note to sprint in');
+      }
+      sessionManager.startSession(file.path);
+    }
+
+    const session = sessionManager.getCurrentSession();
+    if (!session) {
+      throw new Error('Could not start a session for the sprint');
+    }
+    if (session.paused) {
+      sessionManager.resumeSession();
+    }
+
+    const now = Date.now();
+    this.sprint = {
+      id: `sprint-${now}`,
+      durationMin,
+      targetWords: targetWords || undefined,
+      startTime: now,
+      endsAt: now + durationMin * 60000,
+      startWords: session.wordCount,
+      samples: [],
+      lastSampleAt: now,
+      lastSampleWords: session.wordCount,
+      sessionId: session.id
+    };
+
+    // One tick drives the countdown, the samples and the end, so a late timer after sleep still ends the sprint
+    this.tickInterval = window.setInterval(() => this.tick(), 1000);
+    this.plugin.registerInterval(this.tickInterval);
+
+    this.plugin.updateStatusBar();
+    this.plugin.refreshDashboard();
+  }
+
+  getState(): SprintState | null {
+    if (!this.sprint) return null;
+
+    const now = Date.now();
+    const words = this.getWords();
+    const samples = [...this.sprint.samples];
+    if (now - this.sprint.lastSampleAt >= MIN_PARTIAL_SAMPLE_MS) {
+      samples.push(this.sampleWpm(now));
+    }
+
+    return {
+      durationMin: this.sprint.durationMin,
+      targetWords: this.sprint.targetWords,
+      remainingMs: Math.max(0, this.sprint.endsAt - now),
+      words,
+      wpm: this.getWpm(words, now),
+      samples
+    };
+  }
+
+  /**
+   * End the sprint now, save its result and show it next to the personal bests
+   */
+  async finish() {
+    const sprint = this.sprint;
+    if (!sprint) return;
+
+    const now = Math.min(Date.now(), sprint.endsAt);
+    const words = this.getWords();
+    const wpm = this.getWpm(words, now);
+    if (now - sprint.lastSampleAt >= MIN_PARTIAL_SAMPLE_MS) {
+      sprint.samples.push(this.sampleWpm(now));
+    }
+    this.clear();
+
+    const result: SprintResult = {
+      id: sprint.id,
+      date: this.plugin.dataManager.getDay(sprint.startTime),
+      startTime: sprint.startTime,
+      endTime: now,
+      durationMin: sprint.durationMin,
+      targetWords: sprint.targetWords,
+      words,
+      wpm,
+      wpmSamples: sprint.samples,
+      completed: Date.now() >= sprint.endsAt,
+      sessionId: sprint.sessionId
+    };
+
+    // Bests from before this sprint, so the results can show a new record
+    const bests = this.getPersonalBests(sprint.durationMin);
+    await this.plugin.dataManager.addSprint(result);
+
+    new SprintResultsModal(this.plugin.app, result, bests).open();
+    this.plugin.updateStatusBar();
+    this.plugin.refreshDashboard();
+  }
+
+  /**
+   * Stop the sprint without saving a result
+   */
+  cancel() {
+    if (!this.sprint) return;
+
+    this.clear();
+    this.plugin.updateStatusBar();
+    this.plugin.refreshDashboard();
+  }
+
+  /**
+   * The session is ending, so the sprint ends with it
+   */
+  handleSessionEnd() {
+    if (this.sprint) {
+      void this.finish();
+    }
+  }
+
+  /**
+   * Most words and highest WPM among full-length sprints of a duration, or null before the first one
+   */
+  getPersonalBests(durationMin: number): PersonalBests | null {
+    const sprints = this.plugin.dataManager.getSprints()
+      .filter(sprint => sprint.completed && sprint.durationMin === durationMin);
+    if (sprints.length === 0) return null;
+
+    return {
+      words: Math.max(...sprints.map(sprint => sprint.words)),
+      wpm: Math.max(...sprints.map(sprint => sprint.wpm))
+    };
+  }
+
+  private tick() {
+    const sprint = this.sprint;
+    if (!sprint) return;
+
+    const now = Date.now();
+    if (now >= sprint.endsAt) {
+      void this.finish();
+      return;
+    }
+
+    if (now - sprint.lastSampleAt >= SAMPLE_INTERVAL_MS) {
+      sprint.samples.push(this.sampleWpm(now));
+      sprint.lastSampleAt = now;
+      sprint.lastSampleWords = this.plugin.sessionManager.getCurrentSession()?.wordCount ?? sprint.lastSampleWords;
+    }
+
+    this.plugin.updateStatusBar();
+  }
+
+  // WPM over the interval since the last sample
+  private sampleWpm(now: number): number {
+    if (!this.sprint) return 0;
+    const sessionWords = this.plugin.sessionManager.getCurrentSession()?.wordCount ?? this.sprint.lastSampleWords;
+    const minutes = (now - this.sprint.lastSampleAt) / 60000;
+    return minutes > 0 ? Math.round((sessionWords - this.sprint.lastSampleWords) / minutes) : 0;
+  }
+
+  private getWords(): number {
+    if (!this.sprint) return 0;
+    const sessionWords = this.plugin.sessionManager.getCurrentSession()?.wordCount ?? this.sprint.lastSampleWords;
+    return Math.max(0, sessionWords - this.sprint.startWords);
+  }
+
+  // Over the first minute, the words so far
+  private getWpm(words: number, now: number): number {
+    if (!this.sprint) return 0;
+    const minutes = (now - this.sprint.startTime) / 60000;
+    return Math.round(words / Math.max(1, minutes));
+  }
+
+  private clear() {
+    if (this.tickInterval) {
+      window.clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+    this.sprint = null;
+  }
+}
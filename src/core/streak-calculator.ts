@@ -0,0 +1,164 @@
+import type { StreakData, StreakRule } from '../types/interfaces';
+import { addDays, nextPeriodStart, periodStart, startOfWeek, weekday } from './dates';
+import type { PeriodRule } from './dates';
+
+// countEditing is applied when deciding which sessions count, before activity reaches the calculator
+type StreakPeriodRule = Omit<StreakRule, 'countEditing'>;
+
+export interface StreakContext {
+  today: string;
+  weekStartsOn: number;
+  isVacation: (day: string) => boolean;
+}
+
+interface Run {
+  current: number;
+  longest: number;
+  graceUsed: number;
+  freezes: number;
+  freezesUsed: number;
+  pendingFreezes: string[]; // days from which earned freezes can be used, in order
+}
+
+/**
+ * Recompute a streak from daily activity, keyed by YYYY-MM-DD. A day's
+ * activity is what the streak counts on it (1 for a qualifying day, or its
+ * number of sessions); days without activity are left out.
+ * In daily mode every active day extends the streak; with longer periods
+ * every period whose activity adds up to `target` does.
+ *
+ * A missed day or period is excused when it is a rest day or includes a
+ * vacation, then covered by grace while the streak has some left, then by
+ * a saved freeze. Weeks with at least `freezeAfterDays` active days earn a
+ * freeze once they are over. The period still in progress never breaks
+ * the streak.
+ */
+export function calculateStreak(activity: Record<string, number>, rule: StreakPeriodRule, context: StreakContext): StreakData {
+  const { today, weekStartsOn } = context;
+  const days = Object.keys(activity).filter(day => day <= today && activity[day] > 0).sort();
+  const written = new Set(days);
+  const weekStart = startOfWeek(today, weekStartsOn);
+
+  const run: Run = {
+    current: 0,
+    longest: 0,
+    graceUsed: 0,
+    freezes: 0,
+    freezesUsed: 0,
+    pendingFreezes: getEarnedFreezes(days, rule, context)
+  };
+
+  if (days.length > 0) {
+    if (rule.mode === 'daily') {
+      walkDays(run, written, days[0], rule, context);
+    } else {
+      walkPeriods(run, activity, days[0], rule, context);
+    }
+  }
+
+  const weeklyProgress: number[] = [];
+  for (let i = 0; i < 7; i++) {
+    weeklyProgress.push(written.has(addDays(weekStart, i)) ? 1 : 0);
+  }
+
+  return {
+    current: run.current,
+    longest: run.longest,
+    lastWritingDay: days.length > 0 ? days[days.length - 1] : '',
+    graceUsed: run.graceUsed,
+    freezes: run.freezes,
+    freezesUsed: run.freezesUsed,
+    weeklyTarget: rule.mode === 'weekly' ? rule.target : undefined,
+    weeklyProgress
+  };
+}
+
+/**
+ * Days from which each earned freeze can be spent: the start of the week after the one that earned it
+ */
+function getEarnedFreezes(days: string[], rule: StreakPeriodRule, context: StreakContext): string[] {
+  const threshold = rule.freezeAfterDays || 0;
+  if (threshold <= 0) return [];
+
+  const currentWeek = startOfWeek(context.today, context.weekStartsOn);
+  const daysPerWeek = new Map<string, number>();
+  for (const day of days) {
+    const week = startOfWeek(day, context.weekStartsOn);
+    if (week < currentWeek) {
+      daysPerWeek.set(week, (daysPerWeek.get(week) || 0) + 1);
+    }
+  }
+
+  return Array.from(daysPerWeek.keys())
+    .filter(week => daysPerWeek.get(week)! >= threshold)
+    .sort()
+    .map(week => addDays(week, 7));
+}
+
+function walkDays(run: Run, written: Set<string>, first: string, rule: StreakPeriodRule, context: StreakContext) {
+  const restDays = rule.restDays || [];
+
+  for (let day = first; day <= context.today; day = addDays(day, 1)) {
+    unlockFreezes(run, day, rule);
+
+    if (written.has(day)) {
+      extend(run);
+    } else if (day !== context.today && !restDays.includes(weekday(day)) && !context.isVacation(day)) {
+      miss(run, rule);
+    }
+  }
+}
+
+function walkPeriods(run: Run, activity: Record<string, number>, first: string, rule: StreakPeriodRule, context: StreakContext) {
+  const periodRule: PeriodRule = { mode: rule.mode, weekStartsOn: context.weekStartsOn, rollingDays: rule.rollingDays };
+
+  for (let start = periodStart(first, periodRule, context.today); start <= context.today;) {
+    const next = nextPeriodStart(start, periodRule);
+
+    let total = 0;
+    let vacation = false;
+    for (let day = start; day < next; day = addDays(day, 1)) {
+      if (day <= context.today && activity[day] > 0) {
+        total += activity[day];
+      }
+      if (context.isVacation(day)) vacation = true;
+    }
+
+    unlockFreezes(run, addDays(next, -1), rule);
+
+    if (total >= rule.target) {
+      extend(run);
+    } else if (next <= context.today && !vacation) {
+      miss(run, rule);
+    }
+
+    start = next;
+  }
+}
+
+function unlockFreezes(run: Run, day: string, rule: StreakPeriodRule) {
+  while (run.pendingFreezes.length > 0 && run.pendingFreezes[0] <= day) {
+    run.pendingFreezes.shift();
+    run.freezes = Math.min(rule.maxFreezes || 0, run.freezes + 1);
+  }
+}
+
+function extend(run: Run) {
+  run.current++;
+  run.longest = Math.max(run.longest, run.current);
+}
+
+function miss(run: Run, rule: StreakPeriodRule) {
+  if (run.current === 0) return;
+
+  if (run.graceUsed < rule.grace) {
+    run.graceUsed++;
+  } else if (run.freezes > 0) {
+    run.freezes--;
+    run.freezesUsed++;
+  } else {
+    run.current = 0;
+    run.graceUsed = 0;
+    run.freezesUsed = 0;
+  }
+}
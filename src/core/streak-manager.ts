@@ -0,0 +1,257 @@
+import { Notice } from 'obsidian';
+import { DEFAULT_SETTINGS } from '../types/interfaces';
+import type { StreakData, StreakDefinition, StreakInput } from '../types/interfaces';
+import type { IWritingMomentumPlugin } from '../types/plugin-interface';
+import { calculateStreak } from './streak-calculator';
+
+// The streak defined by the streak rule setting
+export const MAIN_STREAK_ID = 'main';
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface StreakStatus {
+  definition: StreakDefinition;
+  data: StreakData;
+}
+
+export class StreakManager {
+  private plugin: IWritingMomentumPlugin;
+
+  constructor(plugin: IWritingMomentumPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Get the streaks defined on top of the main one
+   */
+  getAllStreaks(): StreakDefinition[] {
+    return this.plugin.settings.streaks || [];
+  }
+
+  getStreak(streakId: string): StreakDefinition | null {
+    if (streakId === MAIN_STREAK_ID) return this.getMainStreak();
+    return this.getAllStreaks().find(s => s.id === streakId) || null;
+  }
+
+  /**
+   * The main streak as a definition, so it can be shown like the others
+   */
+  getMainStreak(): StreakDefinition {
+    // Rules saved by older versions lack the newer fields
+    const rule = { ...DEFAULT_SETTINGS.streakRule, ...this.plugin.settings.streakRule };
+    return {
+      ...rule,
+      id: MAIN_STREAK_ID,
+      name: 'Writing streak',
+      counts: 'days',
+      minWords: 0,
+      createdAt: 0,
+      updatedAt: 0
+    };
+  }
+
+  async createStreak(input: StreakInput): Promise<StreakDefinition> {
+    this.validate(input);
+
+    if (this.getAllStreaks().some(s => s.name.toLowerCase() === input.name.trim().toLowerCase())) {
+      throw new Error(`Streak with name "${input.name}" already exists`);
+    }
+
+    const streak: StreakDefinition = {
+      ...this.normalize(input),
+      id: `streak-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+
+    if (!this.plugin.settings.streaks) {
+      this.plugin.settings.streaks = [];
+    }
+    this.plugin.settings.streaks.push(streak);
+    await this.plugin.saveSettings();
+    this.plugin.refreshDashboard();
+
+    new Notice(`Streak "${streak.name}" created`);
+    return streak;
+  }
+
+  async updateStreak(streakId: string, input: StreakInput): Promise<StreakDefinition> {
+    const streaks = this.getAllStreaks();
+    const index = streaks.findIndex(s => s.id === streakId);
+    if (index === -1) {
+      throw new Error('Streak not found');
+    }
+
+    this.validate(input);
+
+    if (streaks.some(s => s.id !== streakId && s.name.toLowerCase() === input.name.trim().toLowerCase())) {
+      throw new Error(`Streak with name "${input.name}" already exists`);
+    }
+
+    const updated: StreakDefinition = {
+      ...streaks[index],
+      ...this.normalize(input),
+      updatedAt: Date.now()
+    };
+    streaks[index] = updated;
+
+    await this.plugin.saveSettings();
+    this.plugin.refreshDashboard();
+
+    new Notice(`Streak "${updated.name}" updated`);
+    return updated;
+  }
+
+  async deleteStreak(streakId: string): Promise<void> {
+    const streaks = this.getAllStreaks();
+    const index = streaks.findIndex(s => s.id === streakId);
+    if (index === -1) {
+      throw new Error('Streak not found');
+    }
+
+    const [streak] = streaks.splice(index, 1);
+    await this.plugin.saveSettings();
+    this.plugin.refreshDashboard();
+
+    new Notice(`Streak "${streak.name}" deleted`);
+  }
+
+  /**
+   * Current and longest run of a streak, recomputed from the session history
+   */
+  getStatus(definition: StreakDefinition): StreakData {
+    if (definition.id === MAIN_STREAK_ID) {
+      return this.plugin.dataManager.getStreak();
+    }
+
+    const dataManager = this.plugin.dataManager;
+    return calculateStreak(this.getActivity(definition), definition, {
+      today: dataManager.getToday(),
+      weekStartsOn: dataManager.getWeekStartsOn(),
+      isVacation: day => dataManager.isOnVacation(day)
+    });
+  }
+
+  /**
+   * The main streak followed by the others
+   */
+  getAllStatuses(): StreakStatus[] {
+    return [this.getMainStreak(), ...this.getAllStreaks()].map(definition => ({
+      definition,
+      data: this.getStatus(definition)
+    }));
+  }
+
+  /**
+   * A short summary of what keeps a streak going, e.g. "500+ words every day"
+   */
+  describe(definition: StreakDefinition): string {
+    const words = definition.minWords > 0 ? `${definition.minWords}+ words` : 'any writing';
+
+    let summary: string;
+    if (definition.mode !== 'daily') {
+      const unit = definition.counts === 'sessions' ? 'sessions' : 'writing days';
+      summary = `${definition.target} ${unit} ${this.describePeriod(definition)}`;
+      if (definition.minWords > 0) {
+        summary += ` (days with ${words})`;
+      }
+    } else {
+      summary = `${words} every day`;
+      const restDays = definition.restDays || [];
+      if (restDays.length > 0) {
+        summary += ` except ${restDays.map(day => DAY_NAMES[day]).join(', ')}`;
+      }
+    }
+
+    if (definition.projectId) {
+      const project = this.plugin.projectManager.getProject(definition.projectId);
+      summary += ` in ${project ? project.name : 'a deleted project'}`;
+    }
+
+    return summary.charAt(0).toUpperCase() + summary.slice(1);
+  }
+
+  private describePeriod(definition: StreakDefinition): string {
+    switch (definition.mode) {
+      case 'weekly':
+        return 'per week';
+      case 'monthly':
+        return 'per month';
+      case 'rolling':
+        return `every ${definition.rollingDays || 1} days`;
+      default:
+        return 'per day';
+    }
+  }
+
+  /**
+   * What the streak counts on each day: 1 for a day that qualifies, or the
+   * day's sessions when the weekly target counts sessions
+   */
+  private getActivity(definition: StreakDefinition): Record<string, number> {
+    const words: Record<string, number> = {};
+    const sessions: Record<string, number> = {};
+
+    for (const session of this.plugin.dataManager.getAllSessions()) {
+      if (!session.completed) continue;
+
+      const amount = definition.projectId
+        ? session.projectWords?.[definition.projectId] || 0
+        : this.plugin.dataManager.getGoalProgress(session);
+      if (amount <= 0) continue;
+
+      words[session.date] = (words[session.date] || 0) + amount;
+      sessions[session.date] = (sessions[session.date] || 0) + 1;
+    }
+
+    const activity: Record<string, number> = {};
+    for (const day of Object.keys(words)) {
+      if (words[day] >= definition.minWords) {
+        activity[day] = definition.counts === 'sessions' ? sessions[day] : 1;
+      }
+    }
+    return activity;
+  }
+
+  private validate(input: StreakInput) {
+    if (!input.name || input.name.trim().length === 0) {
+      throw new Error('Streak name cannot be empty');
+    }
+
+    if (input.mode === 'rolling' && !(input.rollingDays && input.rollingDays > 0)) {
+      throw new Error('Enter how many days a rolling period lasts');
+    }
+
+    if (input.mode !== 'daily') {
+      if (!(input.target > 0)) {
+        throw new Error('Target must be greater than zero');
+      }
+      const periodDays = input.mode === 'weekly' ? 7 : input.mode === 'monthly' ? 31 : input.rollingDays!;
+      if (input.counts === 'days' && input.target > periodDays) {
+        throw new Error(`A period has at most ${periodDays} days`);
+      }
+    }
+
+    if (!(input.minWords >= 0)) {
+      throw new Error('Minimum words cannot be negative');
+    }
+
+    if (!(input.grace >= 0)) {
+      throw new Error('Grace cannot be negative');
+    }
+
+    if (input.projectId && !this.plugin.projectManager.getProject(input.projectId)) {
+      throw new Error('Project not found');
+    }
+  }
+
+  private normalize(input: StreakInput): StreakInput {
+    return {
+      ...input,
+      name: input.name.trim(),
+      projectId: input.projectId || undefined,
+      restDays: input.mode === 'daily' ? input.restDays || [] : [],
+      rollingDays: input.mode === 'rolling' ? input.rollingDays : undefined
+    };
+  }
+}
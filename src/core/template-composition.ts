@@ -0,0 +1,183 @@
+import type { Template } from '../types/interfaces';
+
+/**
+ * Templates built from other templates and snippets.
+ *
+ * A template that extends a parent is the parent with some of its
+ * {{#block name}}…{{/block}} parts replaced by the child's blocks of the
+ * same name; the rest of the child's content is not used. Inside a
+ * replacing block, {{super}} is the parent's content for that block.
+ *
+ * {{> name}} is replaced by the snippet with that name, after blocks
+ * are resolved, so blocks can use snippets and snippets can use others.
+ */
+
+// What composing needs to know about a template
+export type ComposableTemplate = Pick<Template, 'content'> & Partial<Pick<Template, 'id' | 'name' | 'extends'>>;
+
+export interface TemplateLibrary {
+  findTemplate(ref: string): ComposableTemplate | null; // by id or name
+  findSnippet(name: string): string | null;
+}
+
+interface BlockSpan {
+  name: string;
+  depth: number;
+  bodyStart: number;
+  bodyEnd: number;
+}
+
+const BLOCK_TAG_PATTERN = /\{\{\s*(?:#block\s+([\w-]+)|\/block)\s*\}\}/g;
+const PARTIAL_PATTERN = /\{\{>\s*([\w-]+)\s*\}\}/g;
+const SUPER_PATTERN = /\{\{\s*super\s*\}\}/g;
+
+// Blocks in the order they open; unbalanced tags are reported by the template syntax check
+function findBlocks(source: string): BlockSpan[] {
+  const blocks: BlockSpan[] = [];
+  const open: { name: string; bodyStart: number }[] = [];
+  let match: RegExpExecArray | null;
+
+  BLOCK_TAG_PATTERN.lastIndex = 0;
+  while ((match = BLOCK_TAG_PATTERN.exec(source)) !== null) {
+    if (match[1]) {
+      open.push({ name: match[1], bodyStart: BLOCK_TAG_PATTERN.lastIndex });
+    } else {
+      const block = open.pop();
+      if (block) {
+        blocks.push({ ...block, depth: open.length, bodyEnd: match.index });
+      }
+    }
+  }
+
+  return blocks.sort((a, b) => a.bodyStart - b.bodyStart);
+}
+
+/**
+ * The content of each named block; the first one wins when a name repeats
+ */
+export function getBlocks(source: string): Record<string, string> {
+  const blocks: Record<string, string> = {};
+  for (const block of findBlocks(source)) {
+    if (!hasOwn(blocks, block.name)) {
+      blocks[block.name] = source.slice(block.bodyStart, block.bodyEnd);
+    }
+  }
+  return blocks;
+}
+
+function replaceBlocks(source: string, overrides: Record<string, string>): string {
+  let result = '';
+  let last = 0;
+
+  for (const block of findBlocks(source).filter(b => b.depth === 0)) {
+    const body = source.slice(block.bodyStart, block.bodyEnd);
+    const replaced = hasOwn(overrides, block.name)
+      ? overrides[block.name].replace(SUPER_PATTERN, () => body)
+      : replaceBlocks(body, overrides);
+    result += source.slice(last, block.bodyStart) + replaced;
+    last = block.bodyEnd;
+  }
+
+  return result + source.slice(last);
+}
+
+function hasOwn(record: Record<string, string>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+function sameTemplate(a: ComposableTemplate, b: ComposableTemplate): boolean {
+  if (a.id && b.id) return a.id === b.id;
+  return !!a.name && !!b.name && a.name.toLowerCase() === b.name.toLowerCase();
+}
+
+/**
+ * The template followed by its parent, grandparent, ...
+ * Throws when a parent is missing or the chain comes back to a template in it.
+ */
+function inheritanceChain(template: ComposableTemplate, library: TemplateLibrary): ComposableTemplate[] {
+  const chain = [template];
+  let current = template;
+
+  while (current.extends) {
+    const parent = library.findTemplate(current.extends);
+    if (!parent) {
+      throw new Error(`Parent template "${current.extends}" not found`);
+    }
+    if (chain.some(t => sameTemplate(t, parent))) {
+      const names = [...chain, parent].map(t => t.name || t.id || '?');
+      throw new Error(`Inheritance cycle: ${names.join(' → ')}`);
+    }
+    chain.push(parent);
+    current = parent;
+  }
+
+  return chain;
+}
+
+function resolveInheritance(template: ComposableTemplate, library: TemplateLibrary): string {
+  const [root, ...descendants] = inheritanceChain(template, library).reverse();
+  return descendants.reduce((content, child) => replaceBlocks(content, getBlocks(child.content)), root.content);
+}
+
+// Unknown snippets stay as written; validateTemplate reports them
+function includeSnippets(source: string, library: TemplateLibrary, chain: string[]): string {
+  return source.replace(PARTIAL_PATTERN, (raw: string, name: string) => {
+    if (chain.includes(name)) {
+      throw new Error(`Snippet cycle: ${[...chain, name].join(' → ')}`);
+    }
+    const snippet = library.findSnippet(name);
+    return snippet === null ? raw : includeSnippets(snippet, library, [...chain, name]);
+  });
+}
+
+/**
+ * A template's content with its parents and snippets filled in, ready to render.
+ * Throws on a missing parent or a cycle.
+ */
+export function composeTemplate(template: ComposableTemplate, library: TemplateLibrary): string {
+  const content = includeSnippets(resolveInheritance(template, library), library, []);
+  return content.replace(SUPER_PATTERN, '');
+}
+
+/**
+ * Problems that would stop a template from composing, or make it compose
+ * differently than written: missing parents and snippets, cycles, and
+ * blocks the parent does not have.
+ */
+export function findCompositionErrors(template: ComposableTemplate, library: TemplateLibrary): string[] {
+  const errors: string[] = [];
+
+  let content = template.content;
+  try {
+    content = resolveInheritance(template, library);
+
+    const parent = template.extends ? library.findTemplate(template.extends) : null;
+    if (parent) {
+      const parentBlocks = getBlocks(resolveInheritance(parent, library));
+      for (const name of Object.keys(getBlocks(template.content))) {
+        if (!hasOwn(parentBlocks, name)) {
+          errors.push(`Block "${name}" is not in the parent template "${parent.name || template.extends}"`);
+        }
+      }
+    }
+  } catch (error) {
+    errors.push(error.message);
+  }
+
+  try {
+    content = includeSnippets(content, library, []);
+  } catch (error) {
+    errors.push(error.message);
+  }
+
+  const missing = new Set<string>();
+  let match: RegExpExecArray | null;
+  PARTIAL_PATTERN.lastIndex = 0;
+  while ((match = PARTIAL_PATTERN.exec(content)) !== null) {
+    // After a cycle, snippets that exist are left unexpanded too
+    if (library.findSnippet(match[1]) === null) missing.add(match[1]);
+  }
+  missing.forEach(name => errors.push(`Snippet "${name}" not found`));
+
+  return errors;
+}
@@ -1,6 +1,23 @@
-import { TFile } from 'obsidian';
-import type { TemplateVariable } from '../types/interfaces';
+import { TFile, normalizePath } from 'obsidian';
+import type { Template } from '../types/interfaces';
 import type { IWritingMomentumPlugin } from '../types/plugin-interface';
+import { addDays, keyToDate, startOfMonth } from './dates';
+import { extractTemplateVariables, renderTemplate } from './template-language';
+import type { TemplateContext, TemplateValue } from './template-language';
+import { FRONTMATTER_PATTERN, parseTemplateFields, toTemplateValue } from './template-fields';
+import { dateShorthands, sanitizeFileName, sanitizeFolderPath } from './note-paths';
+import { promptForValues } from '../ui/variable-prompt-modal';
+
+// What rendering needs from a template; notes can also come from the default pattern and content
+export type TemplateSource = Pick<Template, 'name' | 'titlePattern' | 'content'> & Partial<Pick<Template, 'id' | 'category' | 'filePaths' | 'extends'>>;
+
+// A rendered template and where its note goes; fileName has no extension
+export interface RenderedNote {
+  title: string;
+  content: string;
+  folder: string;
+  fileName: string;
+}
 
 export class TemplateEngine {
   private plugin: IWritingMomentumPlugin;
@@ -14,18 +31,6 @@ export class TemplateEngine {
     await this.loadPrompts();
   }
 
-  private extractVariables(content: string): string[] {
-    const variableRegex = /\{\{([^}]+)\}\}/g;
-    const variables: Set<string> = new Set();
-    let match;
-
-    while ((match = variableRegex.exec(content)) !== null) {
-      variables.add(match[1].trim());
-    }
-
-    return Array.from(variables);
-  }
-
   private async loadPrompts() {
     const promptPath = this.plugin.settings.paths.prompts;
     const promptFile = this.plugin.app.vault.getAbstractFileByPath(promptPath);
@@ -88,100 +93,210 @@ export class TemplateEngine {
     }
   }
 
-  async createNoteFromTemplate(customVariables?: Record<string, string>) {
-    const variables = this.buildVariables(customVariables);
-    const processedTitle = this.processTemplate(this.plugin.settings.defaultTitlePattern, variables);
-    const processedContent = this.processTemplate(this.plugin.settings.defaultTemplate, variables);
+  /**
+   * Create a note from a template (the default one when none is given),
+   * open it and start a session on it. An existing note at the same path is
+   * handled as the template's collision setting says; the default note is
+   * reused. The session aims for the
+   * template's target, or the active profile's when the template has none
+   * or useTemplateTarget is false.
+   * Returns null when the user cancels the variable form.
+   */
+  async createNoteFromTemplate(
+    customVariables?: Record<string, TemplateValue>,
+    template?: Template,
+    useTemplateTarget = true
+  ): Promise<TFile | null> {
+    const source: TemplateSource = template ?? {
+      name: 'New note',
+      titlePattern: this.plugin.settings.defaultTitlePattern,
+      content: this.plugin.settings.defaultTemplate,
+      filePaths: { pattern: '', folder: '', collision: 'open' }
+    };
 
-    // Replace title variable in content if it exists
-    const titleVariable = { name: 'title', value: processedTitle };
-    const finalContent = this.processTemplate(processedContent, [titleVariable]);
+    const variables = await this.collectVariables(source, customVariables);
+    if (!variables) return null;
 
-    const fileName = `${processedTitle}.md`;
+    const note = this.renderNote(source, variables);
+    const file = await this.createNoteFile(note, source);
 
-    try {
-      const file = await this.plugin.app.vault.create(fileName, finalContent);
+    // Open the file
+    const leaf = this.plugin.app.workspace.getLeaf();
+    await leaf.openFile(file);
 
-      // Open the created file
-      const leaf = this.plugin.app.workspace.getLeaf();
-      await leaf.openFile(file);
+    // Without a target, the session manager falls back to the active profile's
+    const target = useTemplateTarget ? template?.target : undefined;
+    this.plugin.sessionManager.startSession(file.path, template?.id ?? 'default', target);
 
-      // Start a writing session
-      this.plugin.sessionManager.startSession(file.path, 'default');
+    return file;
+  }
 
-      return file;
-    } catch (error) {
-      if (error.message.includes('already exists')) {
-        // File exists, open it instead
-        const existingFile = this.plugin.app.vault.getAbstractFileByPath(fileName);
-        if (existingFile instanceof TFile) {
-          const leaf = this.plugin.app.workspace.getLeaf();
-          await leaf.openFile(existingFile);
-          return existingFile;
+  /**
+   * Write a rendered note to its folder, creating missing folders unless the
+   * template turns that off. When a note already exists at the path, the
+   * template's collision strategy decides between a numbered note, the
+   * existing note, or appending the new content to it.
+   */
+  async createNoteFile(note: RenderedNote, source: TemplateSource): Promise<TFile> {
+    const { vault } = this.plugin.app;
+    const rule = source.filePaths;
+
+    if (note.folder && !vault.getAbstractFileByPath(note.folder)) {
+      if (rule?.createFolders === false) {
+        throw new Error(`Folder "${note.folder}" does not exist`);
+      }
+      await vault.createFolder(note.folder);
+    }
+
+    const pathFor = (name: string) => normalizePath(note.folder ? `${note.folder}/${name}.md` : `${name}.md`);
+    const path = pathFor(note.fileName);
+    const existing = vault.getAbstractFileByPath(path);
+    if (!existing) {
+      return await vault.create(path, note.content);
+    }
+    if (!(existing instanceof TFile)) {
+      throw new Error(`"${path}" is a folder`);
+    }
+
+    switch (rule?.collision ?? 'suffix') {
+      case 'open':
+        return existing;
+      case 'append': {
+        // The note keeps its own frontmatter; only the body is added
+        const body = note.content.replace(FRONTMATTER_PATTERN, '').trim();
+        await vault.process(existing, data => `${data.trimEnd()}\n\n${body}\n`);
+        return existing;
+      }
+      case 'suffix': {
+        let counter = 1;
+        while (vault.getAbstractFileByPath(pathFor(`${note.fileName} (${counter})`))) {
+          counter++;
         }
-        throw new Error('File exists but is not a valid file');
+        return await vault.create(pathFor(`${note.fileName} (${counter})`), note.content);
       }
-      throw error;
     }
   }
 
-  private buildVariables(customVariables?: Record<string, string>): TemplateVariable[] {
-    const now = new Date();
-    const baseVariables: TemplateVariable[] = [
-      {
-        name: 'date',
-        value: this.formatDate(now)
-      },
-      {
-        name: 'time',
-        value: now.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })
-      },
-      {
-        name: 'weekday',
-        value: now.toLocaleDateString('en-US', { weekday: 'long' })
-      },
-      {
-        name: 'vault',
-        value: this.plugin.app.vault.getName()
-      },
-      {
-        name: 'random_prompt',
-        value: () => this.getRandomPrompt()
-      }
+  /**
+   * Ask for the variables a template declares and any others it uses that
+   * have no value, remembering the answers per template. Resolves to null
+   * when the form is cancelled.
+   */
+  async collectVariables(
+    source: TemplateSource,
+    customVariables: Record<string, TemplateValue> = {}
+  ): Promise<Record<string, TemplateValue> | null> {
+    const { fields, body } = parseTemplateFields(this.plugin.templateManager.composeTemplate(source));
+    const known = this.buildContext(customVariables, source).values;
+    const declared = new Set(fields.map(field => field.name));
+
+    // The content's {{title}} falls back to the note title, so only the title pattern can leave it unknown
+    const used = [
+      ...extractTemplateVariables(source.titlePattern),
+      ...extractTemplateVariables(body).filter(name => name !== 'title')
     ];
+    for (const name of used) {
+      if (!(name in known) && !declared.has(name)) {
+        fields.push({ name, type: 'text' });
+        declared.add(name);
+      }
+    }
+
+    const pending = fields.filter(field => !(field.name in customVariables));
+    if (pending.length === 0) return customVariables;
+
+    const remembered = (source.id && this.plugin.settings.templateValues?.[source.id]) || {};
+    const initial: Record<string, string> = {};
+    for (const field of pending) {
+      initial[field.name] = remembered[field.name] ??
+        field.default ??
+        (field.type === 'date' ? this.plugin.dataManager.getToday() : '');
+    }
+
+    const answers = await promptForValues(this.plugin.app, source.name, pending, initial);
+    if (!answers) return null;
 
-    if (customVariables) {
-      for (const [key, value] of Object.entries(customVariables)) {
-        baseVariables.push({ name: key, value });
+    if (source.id) {
+      if (!this.plugin.settings.templateValues) {
+        this.plugin.settings.templateValues = {};
       }
+      this.plugin.settings.templateValues[source.id] = { ...remembered, ...answers };
+      await this.plugin.saveSettings();
     }
 
-    return baseVariables;
+    const values = { ...customVariables };
+    for (const field of pending) {
+      values[field.name] = toTemplateValue(field, answers[field.name] ?? '');
+    }
+    return values;
   }
 
-  private processTemplate(content: string, variables: TemplateVariable[]): string {
-    let processed = content;
-
-    for (const variable of variables) {
-      const value = typeof variable.value === 'function' ? variable.value() : variable.value;
-      const regex = new RegExp(`\\{\\{\\s*${variable.name}\\s*\\}\\}`, 'g');
-      processed = processed.replace(regex, value);
+  /**
+   * Render a template's title, content and note path, with parent templates
+   * and snippets filled in first. The content's {{title}}
+   * is the title given in the variables, or the rendered note title without one.
+   * Folders and file names can also use date shorthands like {{YYYY}}.
+   */
+  renderNote(source: TemplateSource, variables: Record<string, TemplateValue> = {}): RenderedNote {
+    const context = this.buildContext(variables, source);
+    const title = this.render(source.titlePattern, context);
+
+    if (context.values.title === undefined || context.values.title === '') {
+      context.values.title = title;
     }
+    const composed = this.plugin.templateManager.composeTemplate(source);
+    const content = this.render(parseTemplateFields(composed).body, context);
 
-    return processed;
+    const today = keyToDate(this.plugin.dataManager.getToday());
+    const pathContext: TemplateContext = {
+      ...context,
+      values: { ...dateShorthands(today, this.plugin.settings.locale), ...context.values }
+    };
+    const rule = source.filePaths;
+    const folder = sanitizeFolderPath(this.render(rule?.folder || '', pathContext));
+    const fileName = sanitizeFileName(rule?.pattern ? this.render(rule.pattern, pathContext) : title) || 'Untitled';
+
+    return { title, content, folder, fileName };
   }
 
+  /**
+   * Values available to templates and title patterns. Dates follow the
+   * configured calendar, so "today" matches the day sessions are counted on.
+   */
+  buildContext(customVariables?: Record<string, TemplateValue>, template?: TemplateSource): TemplateContext {
+    const dataManager = this.plugin.dataManager;
+    const today = dataManager.getToday();
+    const weekStart = dataManager.getWeekStart(today);
+    const monthStart = startOfMonth(today);
+    const nextMonthStart = startOfMonth(addDays(monthStart, 31));
+
+    const values: Record<string, TemplateValue> = {
+      date: keyToDate(today),
+      time: new Date(),
+      weekday: keyToDate(today).toLocaleDateString('en-US', { weekday: 'long' }),
+      week_start: keyToDate(weekStart),
+      week_end: keyToDate(addDays(weekStart, 6)),
+      month_start: keyToDate(monthStart),
+      month_end: keyToDate(addDays(nextMonthStart, -1)),
+      vault: this.plugin.app.vault.getName(),
+      random_prompt: () => this.getRandomPrompt()
+    };
+
+    if (template) {
+      values.template = template.name;
+      values.category = template.category || 'custom';
+    }
 
-  private formatDate(date: Date): string {
-    const format = this.plugin.settings.dateFormat;
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
+    return {
+      values: { ...values, ...customVariables },
+      dateFormat: this.plugin.settings.dateFormat,
+      dateFormats: { time: 'hh:mm A' },
+      locale: this.plugin.settings.locale
+    };
+  }
 
-    return format
-      .replace('YYYY', year.toString())
-      .replace('MM', month)
-      .replace('DD', day);
+  render(source: string, context: TemplateContext): string {
+    return renderTemplate(source, context);
   }
 
   getRandomPrompt(): string {
@@ -226,4 +341,4 @@ export class TemplateEngine {
   async reloadPrompts() {
     await this.loadPrompts();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,114 @@
+import { parseYaml } from 'obsidian';
+import type { TemplateField, TemplateFieldType } from '../types/interfaces';
+import { keyToDate } from './dates';
+import type { TemplateValue } from './template-language';
+
+export const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const FIELD_TYPES: TemplateFieldType[] = ['text', 'choice', 'date', 'number'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Read the variables a template declares in its frontmatter:
+ *
+ *   ---
+ *   variables:
+ *     project: text
+ *     status: [planning, drafting, done]
+ *     due: { type: date, label: Due date }
+ *   ---
+ *
+ * The declarations are removed from the returned body; any other
+ * frontmatter properties stay there for the note.
+ */
+export function parseTemplateFields(content: string): { fields: TemplateField[]; body: string } {
+  const match = FRONTMATTER_PATTERN.exec(content);
+  if (!match) return { fields: [], body: content };
+
+  let frontmatter: unknown;
+  try {
+    frontmatter = parseYaml(match[1]);
+  } catch {
+    return { fields: [], body: content };
+  }
+  if (!isRecord(frontmatter) || !isRecord(frontmatter.variables)) {
+    return { fields: [], body: content };
+  }
+
+  const fields = Object.entries(frontmatter.variables).map(([name, spec]) => toField(name, spec));
+
+  // Drop only the variables block, line by line, so the rest keeps its formatting
+  const remaining = removeYamlKey(match[1], 'variables');
+  const rest = content.slice(match[0].length);
+  const body = remaining.trim().length > 0 ? `---\n${remaining}\n---\n${rest}` : rest;
+
+  return { fields, body };
+}
+
+function toField(name: string, spec: unknown): TemplateField {
+  if (Array.isArray(spec)) {
+    return { name, type: 'choice', options: spec.map(String) };
+  }
+  if (typeof spec === 'string') {
+    return { name, type: FIELD_TYPES.includes(spec as TemplateFieldType) ? spec as TemplateFieldType : 'text' };
+  }
+  if (!isRecord(spec)) {
+    return { name, type: 'text' };
+  }
+
+  const type = FIELD_TYPES.includes(spec.type as TemplateFieldType) ? spec.type as TemplateFieldType : 'text';
+  return {
+    name,
+    type: Array.isArray(spec.options) && type === 'text' ? 'choice' : type,
+    label: typeof spec.label === 'string' ? spec.label : undefined,
+    options: Array.isArray(spec.options) ? spec.options.map(String) : undefined,
+    default: spec.default !== undefined && spec.default !== null ? String(spec.default) : undefined,
+    required: spec.required === true
+  };
+}
+
+// Drop a top-level key and its indented block
+export function removeYamlKey(yaml: string, key: string): string {
+  const lines = yaml.split(/\r?\n/);
+  const kept: string[] = [];
+  let skipping = false;
+
+  for (const line of lines) {
+    if (line.startsWith(`${key}:`)) {
+      skipping = true;
+      continue;
+    }
+    // The block ends at the next top-level key
+    if (skipping && /^\S/.test(line)) {
+      skipping = false;
+    }
+    if (!skipping) kept.push(line);
+  }
+
+  return kept.join('\n');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A form answer as a template value, so dates can be formatted and numbers compared
+ */
+export function toTemplateValue(field: TemplateField, answer: string): TemplateValue {
+  if (answer === '') return '';
+  if (field.type === 'number') {
+    const number = Number(answer);
+    return isNaN(number) ? answer : number;
+  }
+  if (field.type === 'date' && DATE_PATTERN.test(answer)) {
+    return keyToDate(answer);
+  }
+  return answer;
+}
+
+// "project_name" -> "Project name"
+export function fieldLabel(field: TemplateField): string {
+  if (field.label) return field.label;
+  const words = field.name.replace(/[_-]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
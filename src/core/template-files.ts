@@ -0,0 +1,128 @@
+import { parseYaml } from 'obsidian';
+import type { NoteCollision, Template } from '../types/interfaces';
+import { FRONTMATTER_PATTERN, removeYamlKey } from './template-fields';
+import { NOTE_COLLISIONS, normalizeFilePathRule } from './note-paths';
+
+type TemplateCategory = NonNullable<Template['category']>;
+
+// What a template note defines; ids are assigned by the manager when the file has none
+export type TemplateFileData = Pick<Template, 'name' | 'titlePattern' | 'content' | 'category' | 'description' | 'target' | 'filePaths' | 'extends'> & {
+  id?: string;
+};
+
+const CATEGORIES: TemplateCategory[] = ['daily', 'blog', 'fiction', 'custom'];
+
+// Frontmatter keys that describe the template rather than the note it creates
+const TEMPLATE_KEYS = [
+  'id', 'name', 'category', 'description', 'titlePattern', 'extends',
+  'folder', 'fileName', 'collision', 'createFolders', 'target'
+];
+
+/**
+ * Read a template note:
+ *
+ *   ---
+ *   name: Morning pages
+ *   category: daily
+ *   titlePattern: "{{date}} Morning pages"
+ *   extends: Daily journal
+ *   folder: "Journal/{{YYYY}}/{{MM}}"
+ *   fileName: "{{date}} pages"
+ *   collision: open
+ *   target: 750
+ *   tags: [journal]
+ *   ---
+ *   # {{title}}
+ *
+ * Template keys are removed from the content; any other frontmatter
+ * (tags, variables, ...) stays there for the note. Returns null when
+ * the frontmatter is not valid YAML.
+ */
+export function parseTemplateFile(text: string, path: string): TemplateFileData | null {
+  const fallbackName = path.split('/').pop()?.replace(/\.md$/i, '') || 'Template';
+  const match = FRONTMATTER_PATTERN.exec(text);
+  if (!match) {
+    return {
+      name: fallbackName,
+      titlePattern: `{{date}} - ${fallbackName}`,
+      content: text.trim(),
+      category: 'custom'
+    };
+  }
+
+  let frontmatter: unknown;
+  try {
+    frontmatter = parseYaml(match[1]);
+  } catch {
+    return null;
+  }
+  const meta = typeof frontmatter === 'object' && frontmatter !== null && !Array.isArray(frontmatter)
+    ? frontmatter as Record<string, unknown>
+    : {};
+
+  const remaining = TEMPLATE_KEYS.reduce((yaml, key) => removeYamlKey(yaml, key), match[1]);
+  const rest = text.slice(match[0].length);
+  const content = (remaining.trim().length > 0 ? `---\n${remaining}\n---\n${rest}` : rest).trim();
+
+  const name = stringValue(meta.name) || fallbackName;
+  const target = Number(meta.target);
+  const collision = Object.keys(NOTE_COLLISIONS).includes(meta.collision as string)
+    ? meta.collision as NoteCollision
+    : undefined;
+
+  return {
+    id: stringValue(meta.id),
+    name,
+    titlePattern: stringValue(meta.titlePattern) || `{{date}} - ${name}`,
+    content,
+    category: CATEGORIES.includes(meta.category as TemplateCategory) ? meta.category as TemplateCategory : 'custom',
+    description: stringValue(meta.description),
+    extends: stringValue(meta.extends),
+    target: target > 0 ? Math.round(target) : undefined,
+    filePaths: normalizeFilePathRule({
+      folder: stringValue(meta.folder),
+      pattern: stringValue(meta.fileName),
+      collision,
+      createFolders: meta.createFolders !== false
+    })
+  };
+}
+
+function stringValue(value: unknown): string | undefined {
+  if (typeof value === 'string' && value.trim().length > 0) return value.trim();
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+/**
+ * Write a template as a note, merging its keys into the content's own frontmatter
+ */
+export function serializeTemplate(template: Template): string {
+  const lines = [
+    `id: ${JSON.stringify(template.id)}`,
+    `name: ${JSON.stringify(template.name)}`,
+    `category: ${template.category || 'custom'}`
+  ];
+  if (template.description) lines.push(`description: ${JSON.stringify(template.description)}`);
+  lines.push(`titlePattern: ${JSON.stringify(template.titlePattern)}`);
+  if (template.extends) lines.push(`extends: ${JSON.stringify(template.extends)}`);
+  const rule = normalizeFilePathRule(template.filePaths);
+  if (rule?.folder) lines.push(`folder: ${JSON.stringify(rule.folder)}`);
+  if (rule?.pattern) lines.push(`fileName: ${JSON.stringify(rule.pattern)}`);
+  if (rule?.collision) lines.push(`collision: ${rule.collision}`);
+  if (rule?.createFolders === false) lines.push('createFolders: false');
+  if (template.target) lines.push(`target: ${template.target}`);
+
+  const meta = lines.join('\n');
+  const match = FRONTMATTER_PATTERN.exec(template.content);
+  if (match) {
+    return `---\n${meta}\n${match[1]}\n---\n${template.content.slice(match[0].length)}\n`;
+  }
+  return `---\n${meta}\n---\n\n${template.content}\n`;
+}
+
+// "Blog: draft?" -> "Blog draft.md"
+export function templateFileName(name: string): string {
+  const safe = name.replace(/[\\/:*?"<>|#^[\]]/g, '').replace(/\s+/g, ' ').trim();
+  return `${safe || 'Template'}.md`;
+}
@@ -0,0 +1,380 @@
+/**
+ * The template language used for note content and title patterns.
+ *
+ *   {{name}}                     variable; left as written when it is unknown
+ *   {{date:dddd, MMMM D}}        date with a format specifier
+ *   {{date+1d}} {{date-2w}}      date offsets in days, weeks, months (m) or years (y)
+ *   {{title|Untitled}}           default when the value is missing or empty
+ *   {{title|slug}}               filters: upper, lower, capitalize, slug, trim
+ *   {{#if weekday == "Friday"}}…{{else}}…{{/if}}
+ *                                conditions: ==, !=, in "a, b", not, and, or
+ *   {{#each items}}{{this}}{{/each}}
+ *                                loops over a list, a comma-separated string or
+ *                                a number; {{@number}} counts from 1
+ *   {{#block intro}}…{{/block}}  a named part that templates extending this one
+ *                                can replace; renders its content as is
+ *   {{> gratitude-block}}        a snippet, filled in before rendering
+ *                                (see template-composition.ts)
+ */
+
+export type TemplateValue = string | number | boolean | string[] | Date | (() => string);
+
+export interface TemplateContext {
+  values: Record<string, TemplateValue>;
+  dateFormat: string;                   // for dates written without a format
+  dateFormats?: Record<string, string>; // per-variable default formats, e.g. for time
+  locale?: string;                      // month and weekday names
+}
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'output'; raw: string; expression: string }
+  | { type: 'if'; condition: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; source: string; body: TemplateNode[] }
+  | { type: 'block'; name: string; body: TemplateNode[] };
+
+type Block = Extract<TemplateNode, { type: 'if' } | { type: 'each' } | { type: 'block' }>;
+
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const EXPRESSION_PATTERN = /^(@?\w+)((?:[+-]\d+[dwmy])*)(?::([\s\S]*))?$/;
+const OFFSET_PATTERN = /([+-])(\d+)([dwmy])/g;
+const DATE_TOKEN_PATTERN = /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|Do|DD|D|dddd|ddd|HH|H|hh|h|mm|ss|A|a|WW|W/g;
+
+export const TEMPLATE_FILTERS: Record<string, (value: string) => string> = {
+  upper: value => value.toUpperCase(),
+  lower: value => value.toLowerCase(),
+  capitalize: value => value.charAt(0).toUpperCase() + value.slice(1),
+  trim: value => value.trim(),
+  slug: value => value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // accents
+    .replace(/[^a-z0-9\u00c0-\uffff]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+};
+
+/**
+ * Parse a template into nodes. Throws on unbalanced blocks.
+ */
+function parse(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: { block: Block; nodes: TemplateNode[] }[] = [];
+  let nodes = root;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  TAG_PATTERN.lastIndex = 0;
+  while ((match = TAG_PATTERN.exec(source)) !== null) {
+    if (match.index > last) {
+      nodes.push({ type: 'text', text: source.slice(last, match.index) });
+    }
+    last = TAG_PATTERN.lastIndex;
+
+    const tag = match[1].trim();
+    const open = /^#(if|each|block)\s+([\s\S]+)$/.exec(tag);
+    if (open) {
+      const block: Block = open[1] === 'if'
+        ? { type: 'if', condition: open[2].trim(), then: [], otherwise: [] }
+        : open[1] === 'each'
+          ? { type: 'each', source: open[2].trim(), body: [] }
+          : { type: 'block', name: open[2].trim(), body: [] };
+      nodes.push(block);
+      stack.push({ block, nodes });
+      nodes = block.type === 'if' ? block.then : block.body;
+    } else if (tag === 'else') {
+      const current = stack[stack.length - 1];
+      if (!current || current.block.type !== 'if') {
+        throw new Error('{{else}} outside of an {{#if}} block');
+      }
+      nodes = current.block.otherwise;
+    } else if (/^\/(if|each|block)$/.test(tag)) {
+      const current = stack.pop();
+      if (!current || `/${current.block.type}` !== tag) {
+        throw new Error(`Unexpected {{${tag}}}`);
+      }
+      nodes = current.nodes;
+    } else {
+      nodes.push({ type: 'output', raw: match[0], expression: tag });
+    }
+  }
+
+  if (last < source.length) {
+    nodes.push({ type: 'text', text: source.slice(last) });
+  }
+  if (stack.length > 0) {
+    throw new Error(`Unclosed {{#${stack[stack.length - 1].block.type}}} block`);
+  }
+
+  return root;
+}
+
+/**
+ * Check a template for syntax errors without rendering it
+ */
+export function validateTemplateSyntax(source: string): string | null {
+  try {
+    parse(source);
+    return null;
+  } catch (error) {
+    return error.message;
+  }
+}
+
+/**
+ * Names of the variables a template reads, leaving out loop variables
+ */
+export function extractTemplateVariables(source: string): string[] {
+  const names: Set<string> = new Set();
+
+  const visit = (nodes: TemplateNode[]) => {
+    for (const node of nodes) {
+      if (node.type === 'output') {
+        const name = EXPRESSION_PATTERN.exec(node.expression.split('|')[0].trim())?.[1];
+        if (name) names.add(name);
+      } else if (node.type === 'if') {
+        conditionNames(node.condition).forEach(name => names.add(name));
+        visit(node.then);
+        visit(node.otherwise);
+      } else if (node.type === 'each') {
+        if (/^\w+$/.test(node.source) && !/^\d+$/.test(node.source)) names.add(node.source);
+        visit(node.body);
+      } else if (node.type === 'block') {
+        visit(node.body);
+      }
+    }
+  };
+
+  try {
+    visit(parse(source));
+  } catch {
+    // Fall back to every {{name}} when the template does not parse
+    let match: RegExpExecArray | null;
+    TAG_PATTERN.lastIndex = 0;
+    while ((match = TAG_PATTERN.exec(source)) !== null) {
+      names.add(match[1].trim());
+    }
+  }
+
+  names.delete('this');
+  names.delete('else');
+  return Array.from(names).filter(name => !name.startsWith('@'));
+}
+
+function conditionNames(condition: string): string[] {
+  return condition
+    .replace(/"[^"]*"|'[^']*'/g, ' ')
+    .split(/\s+/)
+    .filter(word => /^[A-Za-z_]\w*$/.test(word) && !['and', 'or', 'not', 'in'].includes(word));
+}
+
+export function renderTemplate(source: string, context: TemplateContext): string {
+  // Computed values such as a random prompt are resolved once per render
+  const computed = new Map<string, string>();
+
+  const lookup = (name: string, values: Record<string, TemplateValue>): TemplateValue | undefined => {
+    const value = values[name];
+    if (typeof value !== 'function') return value;
+    if (!computed.has(name)) computed.set(name, value());
+    return computed.get(name);
+  };
+
+  const stringify = (name: string, value: TemplateValue | undefined, format?: string): string => {
+    if (value === undefined) return '';
+    if (value instanceof Date) {
+      return formatDate(value, format || context.dateFormats?.[name] || context.dateFormat, context.locale);
+    }
+    if (Array.isArray(value)) return value.join(', ');
+    return String(value);
+  };
+
+  const output = (node: Extract<TemplateNode, { type: 'output' }>, values: Record<string, TemplateValue>): string => {
+    const [expression, ...pipes] = node.expression.split('|').map(part => part.trim());
+    const match = EXPRESSION_PATTERN.exec(expression);
+    if (!match) return node.raw;
+
+    const [, name, offsets, format] = match;
+    let value = lookup(name, values);
+    if (value instanceof Date && offsets) {
+      value = shiftDate(value, offsets);
+    }
+
+    let text = stringify(name, value, format?.trim());
+    const filters = pipes.filter(isFilter);
+    const fallback = pipes.find(pipe => !isFilter(pipe));
+
+    if (text === '') {
+      // Unknown variables without a default stay in place for a later pass to fill in
+      if (fallback === undefined) return value === undefined ? node.raw : '';
+      text = fallback;
+    }
+
+    return filters.reduce((result, filter) => TEMPLATE_FILTERS[filter](result), text);
+  };
+
+  const operand = (token: string, values: Record<string, TemplateValue>): string | undefined => {
+    const quoted = /^(["'])([\s\S]*)\1$/.exec(token);
+    if (quoted) return quoted[2];
+    if (/^-?\d+(\.\d+)?$/.test(token)) return token;
+
+    const match = EXPRESSION_PATTERN.exec(token);
+    if (!match) return undefined;
+    let value = lookup(match[1], values);
+    if (value instanceof Date && match[2]) value = shiftDate(value, match[2]);
+    return value === undefined ? undefined : stringify(match[1], value, match[3]);
+  };
+
+  const isTrue = (condition: string, values: Record<string, TemplateValue>): boolean => {
+    const either = splitOutsideQuotes(condition, ' or ');
+    if (either.length > 1) return either.some(part => isTrue(part, values));
+    const both = splitOutsideQuotes(condition, ' and ');
+    if (both.length > 1) return both.every(part => isTrue(part, values));
+
+    const trimmed = condition.trim();
+    if (trimmed.startsWith('not ')) return !isTrue(trimmed.slice(4), values);
+
+    const comparison = /^(.+?)\s*(==|!=|\sin\s)\s*(.+)$/.exec(trimmed);
+    if (comparison) {
+      const left = (operand(comparison[1].trim(), values) || '').toLowerCase();
+      const right = (operand(comparison[3].trim(), values) || '').toLowerCase();
+      const operator = comparison[2].trim();
+      if (operator === 'in') return right.split(',').map(item => item.trim()).includes(left);
+      return operator === '==' ? left === right : left !== right;
+    }
+
+    const value = lookup(trimmed, values);
+    if (Array.isArray(value)) return value.length > 0;
+    const text = stringify(trimmed, value).trim().toLowerCase();
+    return text !== '' && text !== 'false' && text !== '0';
+  };
+
+  const items = (source: string, values: Record<string, TemplateValue>): string[] => {
+    const value = /^\d+$/.test(source) ? Number(source) : lookup(source, values);
+    if (Array.isArray(value)) return value;
+    if (typeof value === 'number') {
+      return Array.from({ length: Math.max(0, Math.floor(value)) }, (_, index) => String(index + 1));
+    }
+    if (value === undefined || value instanceof Date) return [];
+    return String(value).split(',').map(item => item.trim()).filter(item => item.length > 0);
+  };
+
+  const render = (nodes: TemplateNode[], values: Record<string, TemplateValue>): string => nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+          return node.text;
+        case 'output':
+          return output(node, values);
+        case 'if':
+          return render(isTrue(node.condition, values) ? node.then : node.otherwise, values);
+        case 'each': {
+          const list = items(node.source, values);
+          return list.map((item, index) => render(node.body, {
+            ...values,
+            this: item,
+            '@index': index,
+            '@number': index + 1,
+            '@first': index === 0,
+            '@last': index === list.length - 1
+          })).join('');
+        }
+        case 'block':
+          return render(node.body, values);
+      }
+    })
+    .join('');
+
+  return render(parse(source), context.values);
+}
+
+function isFilter(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(TEMPLATE_FILTERS, name);
+}
+
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (text.startsWith(separator, i)) {
+      parts.push(text.slice(start, i));
+      start = i + separator.length;
+      i += separator.length - 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+// "+1d-2w" applied in order
+function shiftDate(date: Date, offsets: string): Date {
+  const shifted = new Date(date.getTime());
+  let match: RegExpExecArray | null;
+
+  OFFSET_PATTERN.lastIndex = 0;
+  while ((match = OFFSET_PATTERN.exec(offsets)) !== null) {
+    const amount = (match[1] === '-' ? -1 : 1) * Number(match[2]);
+    switch (match[3]) {
+      case 'd': shifted.setDate(shifted.getDate() + amount); break;
+      case 'w': shifted.setDate(shifted.getDate() + amount * 7); break;
+      case 'm': shifted.setMonth(shifted.getMonth() + amount); break;
+      case 'y': shifted.setFullYear(shifted.getFullYear() + amount); break;
+    }
+  }
+
+  return shifted;
+}
+
+function isoWeek(date: Date): number {
+  const thursday = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 3 - (date.getDay() + 6) % 7);
+  const firstThursday = new Date(thursday.getFullYear(), 0, 4);
+  return 1 + Math.round(((thursday.getTime() - firstThursday.getTime()) / 86400000 - 3 + (firstThursday.getDay() + 6) % 7) / 7);
+}
+
+function ordinal(day: number): string {
+  const suffixes = ['th', 'st', 'nd', 'rd'];
+  const remainder = day % 100;
+  return day + (suffixes[(remainder - 20) % 10] || suffixes[remainder] || suffixes[0]);
+}
+
+/**
+ * Format a date with Moment-style tokens such as "dddd, MMMM D" or "YYYY-[W]WW".
+ * Text in square brackets is kept as written.
+ */
+export function formatDate(date: Date, format: string, locale = 'en'): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const hours12 = date.getHours() % 12 || 12;
+
+  return format.replace(DATE_TOKEN_PATTERN, (token, literal: string | undefined) => {
+    if (literal !== undefined) return literal;
+    switch (token) {
+      case 'YYYY': return date.getFullYear().toString();
+      case 'YY': return date.getFullYear().toString().slice(-2);
+      case 'MMMM': return date.toLocaleDateString(locale, { month: 'long' });
+      case 'MMM': return date.toLocaleDateString(locale, { month: 'short' });
+      case 'MM': return pad(date.getMonth() + 1);
+      case 'M': return (date.getMonth() + 1).toString();
+      case 'Do': return ordinal(date.getDate());
+      case 'DD': return pad(date.getDate());
+      case 'D': return date.getDate().toString();
+      case 'dddd': return date.toLocaleDateString(locale, { weekday: 'long' });
+      case 'ddd': return date.toLocaleDateString(locale, { weekday: 'short' });
+      case 'HH': return pad(date.getHours());
+      case 'H': return date.getHours().toString();
+      case 'hh': return pad(hours12);
+      case 'h': return hours12.toString();
+      case 'mm': return pad(date.getMinutes());
+      case 'ss': return pad(date.getSeconds());
+      case 'A': return date.getHours() < 12 ? 'AM' : 'PM';
+      case 'a': return date.getHours() < 12 ? 'am' : 'pm';
+      case 'WW': return pad(isoWeek(date));
+      case 'W': return isoWeek(date).toString();
+      default: return token;
+    }
+  });
+}
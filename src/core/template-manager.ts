@@ -1,13 +1,242 @@
-import { Notice } from 'obsidian';
-import type { Template } from '../types/interfaces';
+import { Notice, TAbstractFile, TFile, normalizePath } from 'obsidian';
+import type { Template, TemplateOptions, TemplateSnippet, TemplateUpdate } from '../types/interfaces';
 import type { IWritingMomentumPlugin } from '../types/plugin-interface';
 import { DEFAULT_TEMPLATES } from '../types/interfaces';
+import { extractTemplateVariables, validateTemplateSyntax } from './template-language';
+import { parseTemplateFile, serializeTemplate, templateFileName } from './template-files';
+import type { TemplateFileData } from './template-files';
+import { normalizeFilePathRule } from './note-paths';
+import { composeTemplate, findCompositionErrors } from './template-composition';
+import type { ComposableTemplate, TemplateLibrary } from './template-composition';
 
 export class TemplateManager {
   private plugin: IWritingMomentumPlugin;
+  // Vault events are ignored until the folder has been read once
+  private folderLoaded = false;
 
   constructor(plugin: IWritingMomentumPlugin) {
     this.plugin = plugin;
+    this.registerEvents();
+  }
+
+  /**
+   * Keep templates in sync with their notes when the templates folder
+   * is edited outside the settings, e.g. by hand or by a sync service.
+   */
+  private registerEvents() {
+    const { vault } = this.plugin.app;
+
+    const reload = (file: TAbstractFile) => {
+      if (this.folderLoaded && this.isTemplateFile(file)) {
+        void this.loadTemplateFile(file).then(async changed => {
+          if (changed) await this.plugin.saveSettings();
+        });
+      }
+    };
+    this.plugin.registerEvent(vault.on('create', reload));
+    this.plugin.registerEvent(vault.on('modify', reload));
+
+    this.plugin.registerEvent(
+      vault.on('delete', (file: TAbstractFile) => {
+        if (this.folderLoaded && this.removeFileTemplate(file.path)) {
+          void this.plugin.saveSettings();
+        }
+      })
+    );
+
+    this.plugin.registerEvent(
+      vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+        if (!this.folderLoaded) return;
+        const template = this.plugin.settings.templates.find(t => t.sourcePath === oldPath);
+        if (template && this.isTemplateFile(file)) {
+          template.sourcePath = file.path;
+          void this.plugin.saveSettings();
+        } else if (template) {
+          // Moved out of the folder: the note is no longer a template
+          this.removeFileTemplate(oldPath);
+          void this.plugin.saveSettings();
+        } else {
+          reload(file);
+        }
+      })
+    );
+  }
+
+  /**
+   * The templates folder, or an empty string when templates live in settings only
+   */
+  getTemplateFolder(): string {
+    const folder = (this.plugin.settings.paths.templates || '').trim();
+    return folder ? normalizePath(folder) : '';
+  }
+
+  private isTemplateFile(file: TAbstractFile): file is TFile {
+    const folder = this.getTemplateFolder();
+    return folder !== '' &&
+      file instanceof TFile &&
+      file.extension === 'md' &&
+      file.path.startsWith(`${folder}/`);
+  }
+
+  /**
+   * Read every note in the templates folder into the template list and
+   * write templates that have no note yet into the folder. Templates whose
+   * note has been deleted are removed. Returns the number of template notes.
+   */
+  async loadTemplateFolder(): Promise<number> {
+    const folder = this.getTemplateFolder();
+    if (!folder) {
+      this.folderLoaded = true;
+      return 0;
+    }
+
+    const files = this.plugin.app.vault.getMarkdownFiles().filter(file => this.isTemplateFile(file));
+    for (const file of files) {
+      await this.loadTemplateFile(file);
+    }
+
+    // Notes removed while the plugin was not running
+    const paths = new Set(files.map(file => file.path));
+    const missing = this.plugin.settings.templates.filter(t =>
+      t.sourcePath && t.sourcePath.startsWith(`${folder}/`) && !paths.has(t.sourcePath)
+    );
+    missing.forEach(t => this.removeFileTemplate(t.sourcePath!));
+
+    // Templates created before the folder was set, or synced to another folder
+    for (const template of this.getUserTemplates()) {
+      if (!template.sourcePath || !template.sourcePath.startsWith(`${folder}/`)) {
+        template.sourcePath = undefined;
+        await this.writeTemplateFile(template);
+      }
+    }
+
+    this.folderLoaded = true;
+    await this.plugin.saveSettings();
+    return files.length;
+  }
+
+  /**
+   * Update the template a note defines. Returns false when nothing changed,
+   * which is the case for the modify events caused by our own writes.
+   */
+  private async loadTemplateFile(file: TFile): Promise<boolean> {
+    const parsed = parseTemplateFile(await this.plugin.app.vault.read(file), file.path);
+    if (!parsed) {
+      console.warn(`Writing Momentum: could not read the frontmatter of template ${file.path}`);
+      return false;
+    }
+
+    const templates = this.plugin.settings.templates;
+    let index = templates.findIndex(t => t.sourcePath === file.path);
+    if (index === -1 && parsed.id) {
+      // A note written before the folder was last loaded, e.g. restored from the trash
+      index = templates.findIndex(t => !t.isBuiltIn && !t.sourcePath && t.id === parsed.id);
+    }
+
+    if (index === -1) {
+      const taken = parsed.id && templates.some(t => t.id === parsed.id);
+      templates.push({
+        ...parsed,
+        id: parsed.id && !taken ? parsed.id : this.generateId(),
+        variables: this.extractVariables(parsed.content),
+        sourcePath: file.path,
+        isBuiltIn: false,
+        createdAt: file.stat.ctime,
+        updatedAt: file.stat.mtime
+      });
+      return true;
+    }
+
+    const existing = templates[index];
+    if (this.matchesFile(existing, parsed)) {
+      if (existing.sourcePath === file.path) return false;
+      existing.sourcePath = file.path;
+      return true;
+    }
+
+    const updated: Template = {
+      ...existing,
+      ...parsed,
+      id: existing.id,
+      variables: this.extractVariables(parsed.content),
+      sourcePath: file.path,
+      updatedAt: Date.now()
+    };
+    templates[index] = updated;
+    this.applyActiveDefaults(updated);
+    return true;
+  }
+
+  private matchesFile(template: Template, parsed: TemplateFileData): boolean {
+    return template.name === parsed.name &&
+      template.titlePattern === parsed.titlePattern &&
+      template.content === parsed.content &&
+      (template.category || 'custom') === parsed.category &&
+      template.description === parsed.description &&
+      template.target === parsed.target &&
+      template.extends === parsed.extends &&
+      JSON.stringify(normalizeFilePathRule(template.filePaths)) === JSON.stringify(parsed.filePaths);
+  }
+
+  /**
+   * Write a template to its note, creating the note when it has none yet
+   */
+  private async writeTemplateFile(template: Template): Promise<void> {
+    const folder = this.getTemplateFolder();
+    if (!folder || template.isBuiltIn) return;
+
+    const { vault } = this.plugin.app;
+    const text = serializeTemplate(template);
+    const existing = template.sourcePath ? vault.getAbstractFileByPath(template.sourcePath) : null;
+
+    if (existing instanceof TFile) {
+      if (await vault.read(existing) !== text) {
+        await vault.modify(existing, text);
+      }
+      return;
+    }
+
+    if (!vault.getAbstractFileByPath(folder)) {
+      await vault.createFolder(folder);
+    }
+
+    const fileName = templateFileName(template.name);
+    let path = normalizePath(`${folder}/${fileName}`);
+    let counter = 1;
+    while (vault.getAbstractFileByPath(path)) {
+      path = normalizePath(`${folder}/${fileName.replace(/\.md$/, '')} ${counter}.md`);
+      counter++;
+    }
+
+    // Set before creating so the create event finds the template unchanged
+    template.sourcePath = path;
+    await vault.create(path, text);
+  }
+
+  // Drop the template a note defined; returns false when the note was not a template
+  private removeFileTemplate(path: string): boolean {
+    const index = this.plugin.settings.templates.findIndex(t => t.sourcePath === path);
+    if (index === -1) return false;
+
+    const [removed] = this.plugin.settings.templates.splice(index, 1);
+    if (this.plugin.settings.activeTemplateId === removed.id) {
+      this.plugin.settings.activeTemplateId = this.plugin.settings.templates[0]?.id;
+      const fallback = this.plugin.settings.templates[0];
+      if (fallback) this.applyActiveDefaults(fallback);
+    }
+    return true;
+  }
+
+  // New notes use the active template's pattern and content
+  private applyActiveDefaults(template: Template) {
+    if (this.plugin.settings.activeTemplateId === template.id) {
+      this.plugin.settings.defaultTitlePattern = template.titlePattern;
+      this.plugin.settings.defaultTemplate = template.content;
+    }
+  }
+
+  private generateId(): string {
+    return `custom-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
   }
 
   /**
@@ -62,10 +291,7 @@ export class TemplateManager {
     name: string,
     titlePattern: string,
     content: string,
-    options?: {
-      category?: 'daily' | 'blog' | 'fiction' | 'custom';
-      description?: string;
-    }
+    options?: TemplateOptions
   ): Promise<Template> {
     // Validate inputs
     if (!name || name.trim().length === 0) {
@@ -89,7 +315,7 @@ export class TemplateManager {
     }
 
     // Generate unique ID
-    const id = `custom-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+    const id = this.generateId();
 
     const newTemplate: Template = {
       id,
@@ -99,12 +325,16 @@ export class TemplateManager {
       variables: this.extractVariables(content),
       category: options?.category || 'custom',
       description: options?.description,
+      filePaths: normalizeFilePathRule(options?.filePaths),
+      target: options?.target || undefined,
+      extends: options?.extends || undefined,
       isBuiltIn: false,
       createdAt: Date.now(),
       updatedAt: Date.now()
     };
 
     this.plugin.settings.templates.push(newTemplate);
+    await this.writeTemplateFile(newTemplate);
     await this.plugin.saveSettings();
 
     new Notice(`Template "${name}" created successfully`);
@@ -116,13 +346,7 @@ export class TemplateManager {
    */
   async updateTemplate(
     templateId: string,
-    updates: {
-      name?: string;
-      titlePattern?: string;
-      content?: string;
-      category?: 'daily' | 'blog' | 'fiction' | 'custom';
-      description?: string;
-    }
+    updates: TemplateUpdate
   ): Promise<Template> {
     const templateIndex = this.plugin.settings.templates.findIndex(t => t.id === templateId);
 
@@ -155,6 +379,9 @@ export class TemplateManager {
       ...(updates.content && { content: updates.content.trim() }),
       ...(updates.category && { category: updates.category }),
       ...(updates.description !== undefined && { description: updates.description }),
+      ...('filePaths' in updates && { filePaths: normalizeFilePathRule(updates.filePaths) }),
+      ...(updates.target !== undefined && { target: updates.target || undefined }),
+      ...('extends' in updates && { extends: updates.extends || undefined }),
       updatedAt: Date.now()
     };
 
@@ -166,11 +393,9 @@ export class TemplateManager {
     this.plugin.settings.templates[templateIndex] = updatedTemplate;
 
     // If this is the active template, update the defaults
-    if (this.plugin.settings.activeTemplateId === templateId) {
-      this.plugin.settings.defaultTitlePattern = updatedTemplate.titlePattern;
-      this.plugin.settings.defaultTemplate = updatedTemplate.content;
-    }
+    this.applyActiveDefaults(updatedTemplate);
 
+    await this.writeTemplateFile(updatedTemplate);
     await this.plugin.saveSettings();
     new Notice(`Template "${updatedTemplate.name}" updated`);
 
@@ -205,6 +430,12 @@ export class TemplateManager {
       throw new Error('Cannot delete built-in templates');
     }
 
+    // Templates built on this one would no longer compose
+    const child = this.plugin.settings.templates.find(t => t.extends && this.findTemplate(t.extends) === template);
+    if (child) {
+      throw new Error(`"${child.name}" extends this template`);
+    }
+
     // If this is the active template, switch to first available template
     if (this.plugin.settings.activeTemplateId === templateId) {
       const remainingTemplates = this.plugin.settings.templates.filter(t => t.id !== templateId);
@@ -218,6 +449,12 @@ export class TemplateManager {
     this.plugin.settings.templates.splice(templateIndex, 1);
     await this.plugin.saveSettings();
 
+    // The note goes to the trash, following the vault's deletion setting
+    const file = template.sourcePath ? this.plugin.app.vault.getAbstractFileByPath(template.sourcePath) : null;
+    if (file instanceof TFile) {
+      await this.plugin.app.fileManager.trashFile(file);
+    }
+
     new Notice(`Template "${template.name}" deleted`);
   }
 
@@ -247,7 +484,10 @@ export class TemplateManager {
       template.content,
       {
         category: template.category,
-        description: template.description
+        description: template.description,
+        filePaths: template.filePaths,
+        target: template.target,
+        extends: template.extends
       }
     );
   }
@@ -268,15 +508,7 @@ export class TemplateManager {
    * Extract template variables from content
    */
   private extractVariables(content: string): string[] {
-    const variableRegex = /\{\{([^}]+)\}\}/g;
-    const variables: Set<string> = new Set();
-    let match;
-
-    while ((match = variableRegex.exec(content)) !== null) {
-      variables.add(match[1].trim());
-    }
-
-    return Array.from(variables);
+    return extractTemplateVariables(content);
   }
 
   /**
@@ -294,9 +526,14 @@ export class TemplateManager {
   }
 
   /**
-   * Validate template content
+   * Validate template content. With the template's id, name and parent,
+   * also check that its parents and snippets resolve.
    */
-  validateTemplate(titlePattern: string, content: string): { valid: boolean; errors: string[] } {
+  validateTemplate(
+    titlePattern: string,
+    content: string,
+    template?: Partial<Pick<Template, 'id' | 'name' | 'extends'>>
+  ): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
 
     if (!titlePattern || titlePattern.trim().length === 0) {
@@ -313,14 +550,109 @@ export class TemplateManager {
 
     if (openBraces !== closeBraces) {
       errors.push('Unbalanced template variables ({{ }})');
+    } else {
+      const titleError = validateTemplateSyntax(titlePattern);
+      if (titleError) errors.push(`Title pattern: ${titleError}`);
+      const contentError = validateTemplateSyntax(content);
+      if (contentError) errors.push(contentError);
     }
 
+    errors.push(...findCompositionErrors({ ...template, content }, this.getLibrary()));
+
     return {
       valid: errors.length === 0,
       errors
     };
   }
 
+  /**
+   * Find a template by id, or by name ignoring case, as used by "extends"
+   */
+  findTemplate(ref: string): Template | null {
+    const templates = this.plugin.settings.templates;
+    return templates.find(t => t.id === ref) ||
+      templates.find(t => t.name.toLowerCase() === ref.trim().toLowerCase()) ||
+      null;
+  }
+
+  /**
+   * A template's content with its parent templates and snippets filled in
+   */
+  composeTemplate(template: ComposableTemplate): string {
+    return composeTemplate(template, this.getLibrary());
+  }
+
+  private getLibrary(): TemplateLibrary {
+    return {
+      findTemplate: ref => this.findTemplate(ref),
+      findSnippet: name => this.getSnippet(name)?.content ?? null
+    };
+  }
+
+  /**
+   * Get all snippets
+   */
+  getSnippets(): TemplateSnippet[] {
+    return this.plugin.settings.snippets || [];
+  }
+
+  getSnippet(name: string): TemplateSnippet | null {
+    return this.getSnippets().find(s => s.name === name) || null;
+  }
+
+  /**
+   * Create a snippet, or update the one called previousName
+   */
+  async saveSnippet(name: string, content: string, description?: string, previousName?: string): Promise<TemplateSnippet> {
+    const trimmedName = name.trim();
+    if (!/^[\w-]+$/.test(trimmedName)) {
+      throw new Error('Snippet names can only use letters, numbers, - and _');
+    }
+
+    if (!content || content.trim().length === 0) {
+      throw new Error('Snippet content cannot be empty');
+    }
+
+    const snippets = this.getSnippets();
+    if (trimmedName !== previousName && snippets.some(s => s.name === trimmedName)) {
+      throw new Error(`Snippet "${trimmedName}" already exists`);
+    }
+
+    const snippet: TemplateSnippet = {
+      name: trimmedName,
+      content: content.trim(),
+      description: description?.trim() || undefined
+    };
+
+    const index = previousName !== undefined ? snippets.findIndex(s => s.name === previousName) : -1;
+    if (index === -1) {
+      snippets.push(snippet);
+    } else {
+      snippets[index] = snippet;
+    }
+    this.plugin.settings.snippets = snippets;
+
+    await this.plugin.saveSettings();
+    new Notice(`Snippet "${trimmedName}" saved`);
+    return snippet;
+  }
+
+  /**
+   * Delete a snippet; templates using it keep the {{> name}} tag as written
+   */
+  async deleteSnippet(name: string): Promise<void> {
+    const snippets = this.getSnippets();
+    const index = snippets.findIndex(s => s.name === name);
+
+    if (index === -1) {
+      throw new Error('Snippet not found');
+    }
+
+    snippets.splice(index, 1);
+    await this.plugin.saveSettings();
+    new Notice(`Snippet "${name}" deleted`);
+  }
+
   /**
    * Export templates as JSON
    */
@@ -364,7 +696,10 @@ export class TemplateManager {
           template.content,
           {
             category: template.category,
-            description: template.description
+            description: template.description,
+            filePaths: template.filePaths,
+            target: template.target,
+            extends: template.extends
           }
         );
 
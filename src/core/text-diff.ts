@@ -0,0 +1,166 @@
+export interface EditCount {
+  added: number;
+  deleted: number;
+  changed: number;
+}
+
+// Above this many block pairs, unmatched blocks are compared as one region
+const MAX_ALIGNMENT_CELLS = 250000;
+
+/**
+ * Compare two versions of a document split into blocks.
+ * Blocks are aligned by their text; words in the regions between aligned
+ * blocks are compared as multisets. Within a region, a deleted word paired
+ * with an added one counts as changed, so revising a paragraph shows up as
+ * edits rather than as words lost and words written.
+ */
+export function diffBlocks<T>(
+  beforeBlocks: readonly T[],
+  afterBlocks: readonly T[],
+  text: (block: T) => string,
+  words: (block: T) => string[]
+): EditCount {
+  const edits: EditCount = { added: 0, deleted: 0, changed: 0 };
+  const before = beforeBlocks.map(text);
+  const after = afterBlocks.map(text);
+
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const beforeEnd = before.length - suffix;
+  const afterEnd = after.length - suffix;
+
+  const regions = alignRegions(before, after, prefix, beforeEnd, prefix, afterEnd);
+
+  // A block that disappears in one place and reappears unchanged in another was moved
+  const removedTexts = new Map<string, number>();
+  const insertedTexts = new Map<string, number>();
+  for (const region of regions) {
+    for (let i = region.beforeStart; i < region.beforeEnd; i++) increment(removedTexts, before[i]);
+    for (let j = region.afterStart; j < region.afterEnd; j++) increment(insertedTexts, after[j]);
+  }
+  const movedBefore = new Map<string, number>();
+  removedTexts.forEach((count, key) => {
+    const moves = Math.min(count, insertedTexts.get(key) || 0);
+    if (moves > 0) movedBefore.set(key, moves);
+  });
+  const movedAfter = new Map(movedBefore);
+
+  for (const region of regions) {
+    const removed: string[] = [];
+    const inserted: string[] = [];
+    for (let i = region.beforeStart; i < region.beforeEnd; i++) {
+      if (!takeOne(movedBefore, before[i])) removed.push(...words(beforeBlocks[i]));
+    }
+    for (let j = region.afterStart; j < region.afterEnd; j++) {
+      if (!takeOne(movedAfter, after[j])) inserted.push(...words(afterBlocks[j]));
+    }
+
+    const { added, deleted } = diffWordSets(removed, inserted);
+    const changed = Math.min(added, deleted);
+    edits.added += added - changed;
+    edits.deleted += deleted - changed;
+    edits.changed += changed;
+  }
+
+  return edits;
+}
+
+interface Region {
+  beforeStart: number;
+  beforeEnd: number;
+  afterStart: number;
+  afterEnd: number;
+}
+
+/**
+ * Find the runs of blocks between the longest common subsequence of both ranges
+ */
+function alignRegions(before: string[], after: string[], b0: number, b1: number, a0: number, a1: number): Region[] {
+  const rows = b1 - b0;
+  const cols = a1 - a0;
+  if (rows === 0 && cols === 0) return [];
+  if (rows === 0 || cols === 0 || rows * cols > MAX_ALIGNMENT_CELLS) {
+    return [{ beforeStart: b0, beforeEnd: b1, afterStart: a0, afterEnd: a1 }];
+  }
+
+  // lengths[i * (cols + 1) + j] = LCS length of before[b0 + i..] and after[a0 + j..]
+  const lengths = new Uint32Array((rows + 1) * (cols + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i * (cols + 1) + j] = before[b0 + i] === after[a0 + j]
+        ? lengths[(i + 1) * (cols + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (cols + 1) + j], lengths[i * (cols + 1) + j + 1]);
+    }
+  }
+
+  const regions: Region[] = [];
+  let i = 0;
+  let j = 0;
+  let regionI = 0;
+  let regionJ = 0;
+  const closeRegion = () => {
+    if (i > regionI || j > regionJ) {
+      regions.push({ beforeStart: b0 + regionI, beforeEnd: b0 + i, afterStart: a0 + regionJ, afterEnd: a0 + j });
+    }
+  };
+
+  while (i < rows && j < cols) {
+    if (before[b0 + i] === after[a0 + j]) {
+      closeRegion();
+      i++;
+      j++;
+      regionI = i;
+      regionJ = j;
+    } else if (lengths[(i + 1) * (cols + 1) + j] >= lengths[i * (cols + 1) + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  i = rows;
+  j = cols;
+  closeRegion();
+
+  return regions;
+}
+
+function increment(counts: Map<string, number>, key: string) {
+  counts.set(key, (counts.get(key) || 0) + 1);
+}
+
+// Consume one occurrence of key, returning false when none are left
+function takeOne(counts: Map<string, number>, key: string): boolean {
+  const count = counts.get(key) || 0;
+  if (count === 0) return false;
+  counts.set(key, count - 1);
+  return true;
+}
+
+/**
+ * Count words only present after (added) and only present before (deleted)
+ */
+function diffWordSets(before: string[], after: string[]): { added: number; deleted: number } {
+  const balance = new Map<string, number>();
+  for (const word of before) balance.set(word, (balance.get(word) || 0) - 1);
+  for (const word of after) balance.set(word, (balance.get(word) || 0) + 1);
+
+  let added = 0;
+  let deleted = 0;
+  balance.forEach(count => {
+    if (count > 0) added += count;
+    else deleted -= count;
+  });
+  return { added, deleted };
+}
@@ -1,21 +1,47 @@
-import type { WritingProfile, SessionLog, WeeklyPlan } from '../types/interfaces';
-import { ToastManager } from '../ui/toast';
+import type { WritingProfile, WritingSession, WeeklyPlan, WritingWindow } from '../types/interfaces';
+import { UNIT_LABELS } from '../types/interfaces';
+import type { Notifier } from '../ui/notifier';
+import { addDays, clockTime, startOfWeek, weekday } from './dates';
+import { adaptReminderTime } from './writing-rhythm';
+
+export interface PlannerCalendar {
+  today: string; // YYYY-MM-DD in the user's calendar
+  weekStartsOn: number;
+  onVacation: boolean;
+  timeZone: string; // '' = device time zone
+  writingWindows: WritingWindow[][]; // Per weekday, on the clock of timeZone
+}
 
 export class WeeklyPlanner {
   private profile: WritingProfile;
-  private sessions: SessionLog[];
-  private toastManager: ToastManager;
-
-  constructor(profile: WritingProfile, sessions: SessionLog[], toastManager: ToastManager) {
+  private sessions: WritingSession[];
+  private notifier: Notifier;
+  private today: string;
+  private weekStartsOn: number;
+  private onVacation: boolean;
+  private timeZone: string;
+  private writingWindows: WritingWindow[][];
+
+  constructor(
+    profile: WritingProfile,
+    sessions: WritingSession[],
+    notifier: Notifier,
+    calendar: PlannerCalendar
+  ) {
     this.profile = profile;
     this.sessions = sessions;
-    this.toastManager = toastManager;
+    this.notifier = notifier;
+    this.today = calendar.today;
+    this.weekStartsOn = calendar.weekStartsOn;
+    this.onVacation = calendar.onVacation;
+    this.timeZone = calendar.timeZone;
+    this.writingWindows = calendar.writingWindows;
   }
 
   getCurrentWeekPlan(): WeeklyPlan {
     const weekStart = this.getWeekStart();
     const weekSessions = this.getWeekSessions();
-    const completed = weekSessions.filter(s => s.status === 'completed').length;
+    const completed = weekSessions.filter(s => s.completed).length;
 
     return {
       weekStart,
@@ -26,7 +52,11 @@ export class WeeklyPlanner {
   }
 
   shouldNudge(): boolean {
-    const today = new Date().getDay();
+    if (this.onVacation) {
+      return false;
+    }
+
+    const today = weekday(this.today);
     const plan = this.getCurrentWeekPlan();
 
     // Check if today is a preferred day
@@ -46,15 +76,10 @@ export class WeeklyPlanner {
       return false;
     }
 
-    // Check if we're in preferred time window
-    if (this.profile.answers.preferredTime) {
-      const now = new Date();
-      const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
-
-      // Allow nudge within 30 minutes of preferred time
-      const preferredMinutes = this.timeToMinutes(this.profile.answers.preferredTime);
-      const currentMinutes = this.timeToMinutes(currentTime);
-      const diff = Math.abs(currentMinutes - preferredMinutes);
+    // Allow nudge within 30 minutes of the time the user writes
+    const nudgeTime = this.getNudgeTime();
+    if (nudgeTime !== null) {
+      const diff = Math.abs(clockTime(Date.now(), this.timeZone).minutes - nudgeTime);
 
       if (diff > 30) {
         return false;
@@ -64,6 +89,19 @@ export class WeeklyPlanner {
     return true;
   }
 
+  /**
+   * The preferred time moved to just before the nearest usual writing time,
+   * or the usual writing time itself when no time is preferred
+   */
+  private getNudgeTime(): number | null {
+    const windows = this.writingWindows[clockTime(Date.now(), this.timeZone).weekday] || [];
+
+    if (this.profile.answers.preferredTime) {
+      return adaptReminderTime(this.timeToMinutes(this.profile.answers.preferredTime), windows);
+    }
+    return windows.length > 0 ? adaptReminderTime(windows[0].start, windows) : null;
+  }
+
   showNudge() {
     const plan = this.getCurrentWeekPlan();
     const remaining = plan.targetSessions - plan.completedSessions;
@@ -76,33 +114,31 @@ export class WeeklyPlanner {
       message += `${remaining} sessions left this week.`;
     }
 
-    if (this.profile.recommendation.target.type === 'words') {
-      message += ` Target: ${this.profile.recommendation.target.value} words.`;
-    } else {
-      message += ` Target: ${this.profile.recommendation.target.value} minutes.`;
-    }
+    const target = this.profile.recommendation.target;
+    message += ` Target: ${target.value} ${UNIT_LABELS[target.type]}.`;
 
-    this.toastManager.info(message, 5000);
+    this.notifier.notify('nudges', { title: 'Time to write', message, variant: 'info', duration: 5000 });
   }
 
   showWeeklySummary() {
     const plan = this.getCurrentWeekPlan();
-    const weekSessions = this.getWeekSessions();
-    const totalChars = weekSessions.reduce((sum, s) => sum + (s.chars || 0), 0);
-    const avgChars = weekSessions.length > 0 ? Math.round(totalChars / weekSessions.length) : 0;
+    // Skipped and unfinished sessions would drag the average down
+    const weekSessions = this.getWeekSessions().filter(s => s.completed);
+    const totalWords = weekSessions.reduce((sum, s) => sum + s.wordCount, 0);
+    const avgWords = weekSessions.length > 0 ? Math.round(totalWords / weekSessions.length) : 0;
 
     let message = `📊 Weekly Summary:\n`;
     message += `✅ ${plan.completedSessions}/${plan.targetSessions} sessions\n`;
-    message += `📝 ${totalChars} total characters\n`;
+    message += `📝 ${totalWords} total words\n`;
 
     if (weekSessions.length > 0) {
-      message += `📈 ${avgChars} avg per session`;
+      message += `📈 ${avgWords} avg per session`;
     }
 
     if (plan.completedSessions >= plan.targetSessions) {
-      this.toastManager.milestone(message + '\n🎉 Goal achieved!', 7000);
+      this.notifier.notify('weeklySummary', { title: 'Weekly summary', message: message + '\n🎉 Goal achieved!', variant: 'milestone', duration: 7000 });
     } else {
-      this.toastManager.info(message, 5000);
+      this.notifier.notify('weeklySummary', { title: 'Weekly summary', message, variant: 'info', duration: 5000 });
     }
   }
 
@@ -116,7 +152,7 @@ export class WeeklyPlanner {
       return null;
     }
 
-    const today = new Date().getDay();
+    const today = weekday(this.today);
     const sortedDays = [...this.profile.answers.preferredDays].sort((a, b) => a - b);
 
     // Find next day in the same week
@@ -137,32 +173,29 @@ export class WeeklyPlanner {
   }
 
   private getWeekStart(): string {
-    const now = new Date();
-    const day = now.getDay();
-    const diff = now.getDate() - day; // Go back to Sunday
-    const weekStart = new Date(now.setDate(diff));
-    return weekStart.toISOString().split('T')[0];
+    return startOfWeek(this.today, this.weekStartsOn);
   }
 
-  private getWeekSessions(): SessionLog[] {
-    const weekStart = new Date(this.getWeekStart());
-    const weekEnd = new Date(weekStart);
-    weekEnd.setDate(weekEnd.getDate() + 7);
+  private getWeekSessions(): WritingSession[] {
+    const weekStart = this.getWeekStart();
+    const weekEnd = addDays(weekStart, 7);
 
     return this.sessions.filter(session => {
-      const sessionDate = new Date(session.startedAt);
-      return sessionDate >= weekStart && sessionDate < weekEnd &&
-             session.profileId === this.profile.id;
+      return session.date >= weekStart && session.date < weekEnd &&
+             this.belongsToProfile(session);
     });
   }
 
+  // Sessions recorded without a profile still count towards the active one
+  private belongsToProfile(session: WritingSession): boolean {
+    return !session.profileId || session.profileId === this.profile.id;
+  }
+
   private hasWrittenToday(): boolean {
-    const today = new Date().toISOString().split('T')[0];
     const todaySessions = this.sessions.filter(session => {
-      const sessionDate = new Date(session.startedAt).toISOString().split('T')[0];
-      return sessionDate === today &&
-             session.status === 'completed' &&
-             session.profileId === this.profile.id;
+      return session.date === this.today &&
+             session.completed &&
+             this.belongsToProfile(session);
     });
 
     return todaySessions.length > 0;
@@ -0,0 +1,321 @@
+import type { CountUnit, UnitType, WordCountRules } from '../types/interfaces';
+
+export interface TextCount {
+  words: number;
+  chars: number;
+  mixed: number; // words, with each CJK character counted as one
+}
+
+interface WordSegmenter {
+  segment(input: string): Iterable<{ segment: string; isWordLike?: boolean }>;
+}
+
+type SegmenterConstructor = new (locale?: string, options?: { granularity: 'word' }) => WordSegmenter;
+
+const FRONTMATTER = /^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/;
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^\s{0,3}#{1,6}(\s|$)/;
+const QUOTE = /^\s{0,3}>/;
+const CALLOUT_MARKER = /^\s*\[![^\]]+\][+-]?/;
+const FOOTNOTE_DEFINITION = /^\s{0,3}\[\^[^\]]+\]:/;
+const LIST_MARKER = /^\s*(\d+[.)]|[-*+])\s+(\[.\]\s+)?/;
+
+// ASCII, general, CJK and fullwidth punctuation
+const PUNCTUATION = '!-/:-@[-`{-~\u2000-\u206F\u3000-\u303F\uFF01-\uFF0F\uFF1A-\uFF20\uFF3B-\uFF40\uFF5B-\uFF65';
+// A token counts as a word when it has at least one character that is not punctuation
+const WORD_CHAR = new RegExp(`[^\\s${PUNCTUATION}]`);
+const EDGE_PUNCTUATION = new RegExp(`^[${PUNCTUATION}]+|[${PUNCTUATION}]+$`, 'g');
+
+// Han and kana are written without spaces, so each character is one word.
+// Hangul is space-separated and counts by word, but by character in the mixed unit.
+const IDEOGRAPH = '[\u3040-\u30FF\u31F0-\u31FF\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF\uFF66-\uFF9F]|[\uD840-\uD87E][\uDC00-\uDFFF]';
+const IDEOGRAPH_RUNS = new RegExp(`(?:${IDEOGRAPH})+`, 'g');
+const IDEOGRAPHS = new RegExp(IDEOGRAPH, 'g');
+const HANGUL = /[\u1100-\u11FF\u3130-\u318F\uAC00-\uD7AF]/g;
+
+/**
+ * Markdown-aware word counter.
+ * Syntax, comments, HTML, URLs and embeds never count; code, quotes,
+ * footnotes, headings and links follow the configured rules.
+ */
+export class WordCounter {
+  private rules: WordCountRules;
+  private segmenter: WordSegmenter | null = null;
+
+  constructor(rules: WordCountRules) {
+    this.rules = rules;
+    if (rules.segmentCjk) {
+      // Not available on every platform; falls back to one word per character
+      const Segmenter = (Intl as unknown as { Segmenter?: SegmenterConstructor }).Segmenter;
+      this.segmenter = Segmenter ? new Segmenter(undefined, { granularity: 'word' }) : null;
+    }
+  }
+
+  /**
+   * Count a whole note
+   */
+  count(content: string): TextCount {
+    return this.splitBlocks(content)
+      .map(block => this.countBlock(block))
+      .reduce(addCounts, emptyCount());
+  }
+
+  /**
+   * Split a note into blocks separated by blank lines.
+   * Fenced code and multi-line comments stay in one block even when they
+   * contain blank lines, so each block can be counted on its own.
+   */
+  splitBlocks(content: string): string[] {
+    const lines = content.replace(FRONTMATTER, '').split('\n');
+    const blocks: string[] = [];
+    let current: string[] = [];
+    let fence: string | null = null;
+    let inComment = false;
+    let inHtmlComment = false;
+
+    const flush = () => {
+      if (current.some(line => line.trim().length > 0)) {
+        blocks.push(current.join('\n'));
+      }
+      current = [];
+    };
+
+    for (const line of lines) {
+      const insideConstruct = fence !== null || inComment || inHtmlComment;
+      if (!insideConstruct && line.trim().length === 0) {
+        flush();
+        continue;
+      }
+
+      current.push(line);
+
+      const fenceMatch = line.match(FENCE);
+      if (fence === null && !inComment && !inHtmlComment && fenceMatch) {
+        fence = fenceMatch[1];
+        continue;
+      }
+      if (fence !== null) {
+        if (fenceMatch && fenceMatch[1] === fence) {
+          fence = null;
+        }
+        continue;
+      }
+
+      // Odd number of %% markers toggles an Obsidian comment
+      if ((line.match(/%%/g) || []).length % 2 === 1) {
+        inComment = !inComment;
+      }
+      if (!inComment) {
+        const opens = line.lastIndexOf('<!--');
+        const closes = line.lastIndexOf('-->');
+        if (opens !== -1 && opens > closes) {
+          inHtmlComment = true;
+        } else if (inHtmlComment && closes !== -1) {
+          inHtmlComment = false;
+        }
+      }
+    }
+
+    flush();
+    return blocks;
+  }
+
+  /**
+   * Count a single block produced by splitBlocks
+   */
+  countBlock(block: string): TextCount {
+    return this.countPlain(this.extractText(block));
+  }
+
+  /**
+   * The counted words of a block, in order, without surrounding punctuation
+   */
+  words(block: string): string[] {
+    return this.splitWords(this.extractText(block));
+  }
+
+  /**
+   * Reduce a block to the plain text that counts under the current rules
+   */
+  private extractText(block: string): string {
+    const prose: string[] = [];
+    const code: string[] = [];
+    let fence: string | null = null;
+
+    for (const line of block.split('\n')) {
+      const fenceMatch = line.match(FENCE);
+      if (fence === null && fenceMatch) {
+        fence = fenceMatch[1];
+      } else if (fence !== null) {
+        if (fenceMatch && fenceMatch[1] === fence) {
+          fence = null;
+        } else {
+          code.push(line);
+        }
+      } else {
+        prose.push(line);
+      }
+    }
+
+    const withoutComments = prose.join('\n')
+      .replace(/%%[\s\S]*?(%%|$)/g, ' ')
+      .replace(/<!--[\s\S]*?(-->|$)/g, ' ');
+
+    const lines: string[] = [];
+    for (const rawLine of withoutComments.split('\n')) {
+      const line = this.stripLine(rawLine);
+      if (line !== null) {
+        lines.push(line);
+      }
+    }
+
+    const text = this.stripInline(lines.join('\n'));
+    return this.rules.countCode && code.length > 0 ? `${text}\n${code.join('\n')}` : text;
+  }
+
+  /**
+   * Remove block-level syntax from a line, or return null when the line does not count
+   */
+  private stripLine(line: string): string | null {
+    let text = line;
+
+    if (QUOTE.test(text)) {
+      if (!this.rules.countQuotes) return null;
+      text = text.replace(/^(\s*>)+/, '').replace(CALLOUT_MARKER, '');
+    }
+
+    if (HEADING.test(text)) {
+      if (!this.rules.countHeadings) return null;
+      text = text.replace(/^\s*#+/, '');
+    }
+
+    if (FOOTNOTE_DEFINITION.test(text)) {
+      if (!this.rules.countFootnotes) return null;
+      text = text.replace(FOOTNOTE_DEFINITION, '');
+    }
+
+    return text.replace(LIST_MARKER, '');
+  }
+
+  /**
+   * Remove inline syntax, keeping only the text that should count
+   */
+  private stripInline(text: string): string {
+    return text
+      // Inline code
+      .replace(/`+([^`]*)`+/g, (_match, code: string) => this.rules.countCode ? ` ${code} ` : ' ')
+      // Embeds and images never count
+      .replace(/!\[\[[^\]]*\]\]/g, ' ')
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+      // Footnote references
+      .replace(/\[\^[^\]]+\]/g, ' ')
+      // Wikilinks: [[target|alias]]
+      .replace(/\[\[([^\]|]*)(?:\|([^\]]*))?\]\]/g, (_match, target: string, alias?: string) => {
+        const targetText = target.replace(/[#^]+/g, ' ');
+        return ` ${this.pickLinkText(alias ?? targetText, targetText)} `;
+      })
+      // Markdown links: [text](target)
+      .replace(/\[([^\]]*)\]\(([^)]*)\)/g, (_match, label: string, target: string) => {
+        // An external target is a single token however long the URL is
+        const targetText = /^[a-z][a-z0-9+.-]*:/i.test(target) ? 'link' : target.replace(/%20/g, ' ').replace(/\.md$/, '');
+        return ` ${this.pickLinkText(label, targetText)} `;
+      })
+      // Bare URLs and HTML tags
+      .replace(/\b[a-z][a-z0-9+.-]*:\/\/\S+/gi, ' ')
+      .replace(/<\/?[a-z][^>]*>/gi, ' ')
+      // Table cell separators, once link aliases are resolved
+      .replace(/\|/g, ' ');
+  }
+
+  private pickLinkText(text: string, target: string): string {
+    switch (this.rules.links) {
+      case 'target':
+        return target;
+      case 'both':
+        return text === target ? text : `${text} ${target}`;
+      case 'text':
+      default:
+        return text;
+    }
+  }
+
+  private countPlain(text: string): TextCount {
+    const count = emptyCount();
+    count.words = this.splitWords(text).length;
+
+    for (const token of text.split(/\s+/)) {
+      if (!WORD_CHAR.test(token)) continue;
+      count.chars += Array.from(token).filter(char => WORD_CHAR.test(char)).length;
+
+      for (const run of token.match(IDEOGRAPH_RUNS) || []) {
+        count.mixed += (run.match(IDEOGRAPHS) || []).length;
+      }
+      for (const word of token.replace(IDEOGRAPH_RUNS, ' ').split(' ')) {
+        if (!WORD_CHAR.test(word)) continue;
+        const syllables = (word.match(HANGUL) || []).length;
+        count.mixed += syllables + (WORD_CHAR.test(word.replace(HANGUL, '')) ? 1 : 0);
+      }
+    }
+
+    return count;
+  }
+
+  private splitWords(text: string): string[] {
+    const words: string[] = [];
+
+    for (const token of text.split(/\s+/)) {
+      if (!WORD_CHAR.test(token)) continue;
+
+      // Ideographs count on their own; whatever surrounds them is counted as ordinary words
+      for (const run of token.match(IDEOGRAPH_RUNS) || []) {
+        words.push(...this.splitIdeographs(run));
+      }
+
+      for (const word of token.replace(IDEOGRAPH_RUNS, ' ').split(' ')) {
+        if (WORD_CHAR.test(word)) {
+          words.push(word.replace(EDGE_PUNCTUATION, ''));
+        }
+      }
+    }
+
+    return words;
+  }
+
+  private splitIdeographs(run: string): string[] {
+    if (!this.segmenter) return run.match(IDEOGRAPHS) || [];
+
+    const words: string[] = [];
+    for (const segment of this.segmenter.segment(run)) {
+      if (segment.isWordLike) words.push(segment.segment);
+    }
+    return words;
+  }
+}
+
+export function emptyCount(): TextCount {
+  return { words: 0, chars: 0, mixed: 0 };
+}
+
+export function addCounts(a: TextCount, b: TextCount): TextCount {
+  return { words: a.words + b.words, chars: a.chars + b.chars, mixed: a.mixed + b.mixed };
+}
+
+export function isCountUnit(unit: UnitType): unit is CountUnit {
+  return unit !== 'minutes';
+}
+
+/**
+ * Read a count in the given unit. Sessions recorded before characters
+ * and mixed counts were tracked fall back to their word count.
+ */
+export function countIn(count: { wordCount: number; chars?: number; mixed?: number }, unit: CountUnit): number {
+  switch (unit) {
+    case 'characters':
+      return count.chars ?? count.wordCount;
+    case 'mixed':
+      return count.mixed ?? count.wordCount;
+    case 'words':
+    default:
+      return count.wordCount;
+  }
+}
@@ -0,0 +1,75 @@
+import type { WritingSession, WritingWindow } from '../types/interfaces';
+import { clockTime } from './dates';
+
+// Only recent habits count, so the analysis follows changes in routine
+const LOOKBACK_DAYS = 56;
+// Sessions starting within this many minutes of each other belong to the same window
+const WINDOW_GAP_MIN = 45;
+// A window needs this many sessions before reminders rely on it
+const MIN_WINDOW_SESSIONS = 3;
+// An adaptive reminder moves to a window at most this far from its set time
+const MAX_SHIFT_MIN = 180;
+// Adaptive reminders fire this long before a window opens
+const LEAD_MIN = 10;
+
+/**
+ * Times of day the user actually starts writing, per weekday (index 0 = Sunday),
+ * found from the start times of recent productive sessions. Windows are
+ * sorted by how many sessions they hold. Times are read on the clock of
+ * timeZone, or of the device when it is empty.
+ */
+export function findWritingWindows(sessions: WritingSession[], now: number = Date.now(), timeZone = ''): WritingWindow[][] {
+  const since = now - LOOKBACK_DAYS * 24 * 60 * 60 * 1000;
+  const startsByWeekday: number[][] = [[], [], [], [], [], [], []];
+
+  for (const session of sessions) {
+    if (session.startTime < since || session.startTime > now) continue;
+    const start = clockTime(session.startTime, timeZone);
+    startsByWeekday[start.weekday].push(start.minutes);
+  }
+
+  return startsByWeekday.map((starts, weekday) => {
+    const windows: WritingWindow[] = [];
+    let current: WritingWindow | null = null;
+
+    for (const minute of starts.sort((a, b) => a - b)) {
+      if (current && minute - current.end <= WINDOW_GAP_MIN) {
+        current.end = minute;
+        current.sessions++;
+      } else {
+        current = { weekday, start: minute, end: minute, sessions: 1 };
+        windows.push(current);
+      }
+    }
+
+    return windows
+      .filter(window => window.sessions >= MIN_WINDOW_SESSIONS)
+      .sort((a, b) => b.sessions - a.sessions);
+  });
+}
+
+/**
+ * When an adaptive reminder set for `time` should fire on a day with these
+ * windows: shortly before the nearest window, or at `time` when none is close.
+ */
+export function adaptReminderTime(time: number, windows: WritingWindow[]): number {
+  let nearest: WritingWindow | null = null;
+  for (const window of windows) {
+    const distance = Math.abs(window.start - time);
+    if (distance <= MAX_SHIFT_MIN && (!nearest || distance < Math.abs(nearest.start - time))) {
+      nearest = window;
+    }
+  }
+
+  return nearest ? Math.max(0, nearest.start - LEAD_MIN) : time;
+}
+
+export function parseTime(time: string): number | null {
+  const [hour, minute] = time.split(':').map(Number);
+  if (isNaN(hour) || isNaN(minute)) return null;
+  return hour * 60 + minute;
+}
+
+export function formatTime(minutes: number): string {
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+}
@@ -1,6 +1,10 @@
 export interface WritingMomentumSettings {
   reminders: ReminderConfig[];
   streakRule: StreakRule;
+  streaks: StreakDefinition[];  // tracked alongside the main streak from streakRule
+  calendar: CalendarSettings;
+  vacation: VacationSettings;
+  notifications: NotificationSettings;
   locale: string;
   dateFormat: string;
   defaultTitlePattern: string;
@@ -8,6 +12,9 @@ export interface WritingMomentumSettings {
   templates: Template[];  // Added: User-created template presets
   activeTemplateId?: string;  // Added: Currently selected template
   alwaysUseActiveTemplate: boolean;  // Added: Skip template selection dialog
+  templateValues: Record<string, Record<string, string>>; // last values entered per template id
+  snippets: TemplateSnippet[];
+  projects: Project[];
   continuousWriting: {
     enabled: boolean;
     targetSessions: number;
@@ -21,7 +28,11 @@ export interface WritingMomentumSettings {
   };
   paths: {
     prompts: string;
+    templates: string; // folder of template notes; empty keeps templates in settings only
   };
+  wordCount: WordCountRules;
+  autoSession: AutoSessionRules;
+  pomodoro: PomodoroSettings;
   ui: {
     showStatusBar: boolean;
     showRibbonIcon: boolean;
@@ -34,11 +45,52 @@ export interface WritingMomentumSettings {
   enableNotifications?: boolean;
 }
 
+export interface WordCountRules {
+  countCode: boolean;      // fenced and inline code
+  countQuotes: boolean;    // blockquotes and callouts
+  countFootnotes: boolean; // footnote definitions
+  countHeadings: boolean;
+  links: 'text' | 'target' | 'both'; // which part of a link counts
+  segmentCjk: boolean;     // split Chinese/Japanese into words instead of counting each character
+}
+
+export interface AutoSessionRules {
+  autoStart: boolean;       // start a session when a matching note is opened
+  autoAttach: boolean;      // add matching notes opened during a session to it
+  folders: string[];        // folder paths or globs, e.g. "Journal/**"
+  tags: string[];           // without '#', nested tags included
+  frontmatter: string[];    // "key" or "key: value"
+  exclude: string[];        // folder paths or globs that never match
+  idlePauseMin: number;     // pause the session after this many minutes without edits, 0 = never
+  idleTimeoutMin: number;   // end the session after this many minutes without edits, 0 = never
+}
+
+export type ProjectScope = 'folder' | 'tag' | 'files';
+
+export interface Project {
+  id: string;
+  name: string;
+  scope: ProjectScope;   // which of the fields below decides membership
+  folder?: string;       // folder path or glob, e.g. "Novel/**"
+  tag?: string;          // without '#', nested tags included
+  files?: string[];      // explicit note paths
+  targetWords: number;
+  deadline?: string;     // YYYY-MM-DD
+  sessionsPerWeek?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ProjectInput = Omit<Project, 'id' | 'createdAt' | 'updatedAt'>;
+
 export interface ReminderConfig {
   id: string;
   days: number[]; // 0=Sunday, 1=Monday, etc.
   time: string; // "21:00" format
   secondShotMins?: number; // Double reminder after N minutes
+  snoozeOptions?: number[]; // Minutes offered by the snooze buttons
+  adaptive?: boolean; // Move to just before the nearest time the user usually starts writing
+  skipWhenGoalMet?: boolean; // Stay quiet once today's goal is reached
   templateId?: string;
   dnd?: {
     start: string; // "23:30"
@@ -47,35 +99,159 @@ export interface ReminderConfig {
   enabled: boolean;
 }
 
+export interface PomodoroSettings {
+  enabled: boolean;
+  focusMin: number;       // 0 = the writing profile's session length
+  shortBreakMin: number;  // 0 = the writing profile's break length
+  longBreakMin: number;
+  longBreakEvery: number; // focus periods before a long break
+  sound: boolean;         // chime when a focus period or break ends
+}
+
+export type PomodoroPhase = 'focus' | 'shortBreak' | 'longBreak';
+
+export interface PomodoroState {
+  phase: PomodoroPhase;
+  remainingMs: number;
+  completed: number; // focus periods finished so far
+  paused: boolean;
+}
+
+export type ReminderInput = Omit<ReminderConfig, 'id'>;
+
+// A time of day the user habitually starts writing, learned from past sessions
+export interface WritingWindow {
+  weekday: number; // 0 = Sunday
+  start: number;   // minutes after midnight
+  end: number;
+  sessions: number;
+}
+
+export const DEFAULT_SNOOZE_OPTIONS = [10, 30, 60];
+
+export type NotificationChannel = 'reminders' | 'milestones' | 'nudges' | 'weeklySummary';
+
+// 'auto' follows the writing profile's notify level
+export type ChannelDelivery = 'auto' | 'desktop' | 'app' | 'off';
+
+export interface NotificationSettings {
+  desktop: boolean; // allow system notifications when Obsidian is in the background
+  channels: Record<NotificationChannel, ChannelDelivery>;
+}
+
+export interface CalendarSettings {
+  timeZone: string;     // IANA name such as "Asia/Seoul", empty for the device's time zone
+  dayStartHour: number; // writing before this hour counts toward the previous day
+  weekStartsOn: number; // 0 = Sunday, 1 = Monday (ISO weeks)
+}
+
+// 'rolling' periods are windows of rollingDays days, counted back from today
+export type PeriodMode = 'daily' | 'weekly' | 'monthly' | 'rolling';
+
 export interface StreakRule {
-  mode: 'daily' | 'weekly';
+  mode: PeriodMode;
   target: number; // words or days per period
-  grace: number; // grace days allowed
+  rollingDays?: number;    // window length in rolling mode
+  grace: number; // missed days (periods in other modes) forgiven per streak
+  countEditing?: boolean; // words changed and deleted count toward goals and streaks
+  restDays?: number[];     // weekdays (0 = Sunday) that never break a daily streak
+  freezeAfterDays?: number; // writing days in a week that earn a streak freeze, 0 = never
+  maxFreezes?: number;     // most freezes that can be saved up
+}
+
+export type StreakCounts = 'days' | 'sessions';
+
+export interface StreakDefinition extends Omit<StreakRule, 'countEditing'> {
+  id: string;
+  name: string;
+  counts: StreakCounts;  // what the target of a longer period counts
+  minWords: number;      // words a day needs to count, 0 = any productive session
+  projectId?: string;    // only count writing in this project
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type StreakInput = Omit<StreakDefinition, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Streaks, nudges and reminders are paused from start to end, inclusive
+export interface VacationSettings {
+  enabled: boolean;
+  start: string; // YYYY-MM-DD, empty for "from now"
+  end: string;   // YYYY-MM-DD, empty for "until turned off"
 }
 
+// "skipped" is a session the user skipped, "ended" one cut short (unload, replaced, idle),
+// "day-skipped" a "Skip today" from a reminder rather than a writing session
+export type SessionStatus = "ongoing" | "completed" | "skipped" | "ended" | "day-skipped";
+
 export interface WritingSession {
   id: string;
   date: string; // YYYY-MM-DD
   startTime: number;
   endTime?: number;
-  wordCount: number;
+  wordCount: number; // words added; deletions never reduce it
+  wordsDeleted?: number;
+  wordsChanged?: number; // words replaced by other words
+  chars?: number;
+  mixed?: number; // words, with each CJK character counted as one
+  fileWords?: Record<string, number>;    // words added per note
+  projectWords?: Record<string, number>; // words attributed per project id
   targetCount?: number;
+  targetUnit?: UnitType; // unit of targetCount, defaults to words
   templateUsed?: string;
   files: string[];
   completed: boolean;
+  status?: SessionStatus;
+  profileId?: string;
   // Additional fields for active session management
   active?: boolean;
   paused?: boolean;
   pausedTime?: number;
-  totalPausedDuration?: number;
+  totalPausedDuration?: number; // manual pauses and idle gaps
+  autoPaused?: boolean;         // paused for lack of edits, resumes on the next edit
+  activeMs?: number;            // writing time excluding pauses, set when the session ends
+  pomodoros?: number;           // focus periods completed
   filePath?: string;
 }
 
+// A timed writing challenge, stored apart from the session it ran in
+export interface SprintResult {
+  id: string;
+  date: string; // YYYY-MM-DD
+  startTime: number;
+  endTime: number;
+  durationMin: number;
+  targetWords?: number;
+  words: number;         // words added during the sprint
+  wpm: number;
+  wpmSamples: number[];  // words per minute over each sample interval
+  completed: boolean;    // ran its full duration; only these set personal bests
+  sessionId?: string;
+}
+
+export const SPRINT_DURATIONS = [10, 15, 30];
+
+export interface SprintState {
+  durationMin: number;
+  targetWords?: number;
+  remainingMs: number;
+  words: number;
+  wpm: number;
+  samples: number[]; // includes the interval in progress
+}
+
+export interface PersonalBests {
+  words: number;
+  wpm: number;
+}
+
 export interface StreakData {
   current: number;
   longest: number;
   lastWritingDay: string; // YYYY-MM-DD
   graceUsed: number;
+  freezes?: number;       // saved freezes, each covers one missed day or week
+  freezesUsed?: number;   // freezes spent on the current streak
   weeklyTarget?: number;
   weeklyProgress: number[];
 }
@@ -89,14 +265,54 @@ export interface Template {
   category?: 'daily' | 'blog' | 'fiction' | 'custom';
   description?: string;
   filePaths?: FilePathRule;
+  target?: number;       // word target for sessions started from this template
+  extends?: string;      // id or name of the parent template whose blocks this one replaces
+  sourcePath?: string;   // template note in the templates folder, when synced
   isBuiltIn?: boolean;  // True for default templates, false for user-created
   createdAt?: number;
   updatedAt?: number;
 }
 
+// Reusable content included in templates with {{> name}}
+export interface TemplateSnippet {
+  name: string;
+  content: string;
+  description?: string;
+}
+
+// Settings a template can be created or updated with
+export interface TemplateOptions {
+  category?: 'daily' | 'blog' | 'fiction' | 'custom';
+  description?: string;
+  filePaths?: FilePathRule;
+  target?: number;
+  extends?: string;
+}
+
+export type TemplateUpdate = TemplateOptions & Partial<Pick<Template, 'name' | 'titlePattern' | 'content'>>;
+
+export type TemplateFieldType = 'text' | 'choice' | 'date' | 'number';
+
+// A variable the user is asked for before a note is created
+export interface TemplateField {
+  name: string;
+  type: TemplateFieldType;
+  label?: string;
+  options?: string[]; // choices
+  default?: string;
+  required?: boolean;
+}
+
+// What to do when a note with the resolved path already exists
+export type NoteCollision = 'suffix' | 'open' | 'append';
+
+// Where notes from a template are created. Both parts use the template
+// language plus the date shorthands {{YYYY}}, {{MM}}, {{DD}}, ...
 export interface FilePathRule {
-  pattern: string; // e.g., "{{date}} Daily.md" or "Blog-{{date}}-{{slug}}.md"
-  folder: string;  // target folder
+  pattern: string; // file name without .md, e.g. "{{date}} Daily"; empty uses the note title
+  folder: string;  // target folder, e.g. "Journal/{{YYYY}}/{{MM}}"; empty is the vault root
+  collision?: NoteCollision; // defaults to 'suffix'
+  createFolders?: boolean;   // create missing folders; defaults to true
 }
 
 export interface PromptSource {
@@ -120,14 +336,10 @@ export interface DashboardStats {
   targetProgress?: number | null;
 }
 
-export interface TemplateVariable {
-  name: string;
-  value: string | (() => string);
-}
-
 // Q&A-based estimation system
 export type Purpose = "express" | "monetize" | "fun" | "skill" | "custom";
-export type UnitType = "minutes" | "words";
+export type CountUnit = "words" | "characters" | "mixed";
+export type UnitType = "minutes" | CountUnit;
 export type Feasibility = "busy" | "normal" | "free";
 
 export interface QaAnswers {
@@ -142,6 +354,13 @@ export interface QaAnswers {
   preferredTime?: string;    // "20:30" (Step 5)
 }
 
+export const UNIT_LABELS: Record<UnitType, string> = {
+  words: 'words',
+  characters: 'characters',
+  mixed: 'words/characters',
+  minutes: 'minutes'
+};
+
 export interface Recommendation {
   sessionLengthMin: number;
   target: { type: UnitType; value: number };
@@ -161,6 +380,8 @@ export interface WritingProfile {
   updatedAt: number;
 }
 
+// Legacy record written by the former purpose session tracker.
+// Only read when migrating old data into WritingSession.
 export interface SessionLog {
   id: string;
   profileId: string;
@@ -169,7 +390,7 @@ export interface SessionLog {
   endedAt?: number;
   chars?: number;
   words?: number;
-  status: "ongoing" | "completed" | "skipped";
+  status: SessionStatus;
 }
 
 export interface WeeklyPlan {
@@ -233,7 +454,7 @@ export const DEFAULT_SETTINGS: WritingMomentumSettings = {
       days: [1, 2, 3, 4, 5, 6, 0],
       time: '21:00',
       secondShotMins: 30,
-      templateId: 'daily-3lines',
+      templateId: 'daily-journal',
       dnd: {
         start: '23:30',
         end: '07:30'
@@ -244,7 +465,32 @@ export const DEFAULT_SETTINGS: WritingMomentumSettings = {
   streakRule: {
     mode: 'weekly',
     target: 5,
-    grace: 1
+    grace: 1,
+    countEditing: false,
+    restDays: [],
+    rollingDays: 7,
+    freezeAfterDays: 6,
+    maxFreezes: 2
+  },
+  streaks: [],
+  calendar: {
+    timeZone: '',
+    dayStartHour: 0,
+    weekStartsOn: 0
+  },
+  vacation: {
+    enabled: false,
+    start: '',
+    end: ''
+  },
+  notifications: {
+    desktop: false,
+    channels: {
+      reminders: 'auto',
+      milestones: 'auto',
+      nudges: 'auto',
+      weeklySummary: 'auto'
+    }
   },
   locale: 'en',
   dateFormat: 'YYYY-MM-DD',
@@ -252,7 +498,10 @@ export const DEFAULT_SETTINGS: WritingMomentumSettings = {
   defaultTemplate: '# {{title}}\n\n## Prompt\n{{random_prompt}}\n\n## Writing\n\n\n---\n*Written on {{weekday}} at {{time}}*',
   templates: [...DEFAULT_TEMPLATES],
   activeTemplateId: 'simple-writing',
+  projects: [],
   alwaysUseActiveTemplate: false,
+  templateValues: {},
+  snippets: [],
   continuousWriting: {
     enabled: false,
     targetSessions: 30,
@@ -265,7 +514,34 @@ export const DEFAULT_SETTINGS: WritingMomentumSettings = {
     autoRefresh: true
   },
   paths: {
-    prompts: '.writing-momentum/prompts.md'
+    prompts: '.writing-momentum/prompts.md',
+    templates: ''
+  },
+  wordCount: {
+    countCode: false,
+    countQuotes: true,
+    countFootnotes: false,
+    countHeadings: true,
+    links: 'text',
+    segmentCjk: false
+  },
+  autoSession: {
+    autoStart: false,
+    autoAttach: false,
+    folders: [],
+    tags: [],
+    frontmatter: [],
+    exclude: [],
+    idlePauseMin: 5,
+    idleTimeoutMin: 0
+  },
+  pomodoro: {
+    enabled: true,
+    focusMin: 0,
+    shortBreakMin: 0,
+    longBreakMin: 15,
+    longBreakEvery: 4,
+    sound: true
   },
   ui: {
     showStatusBar: true,
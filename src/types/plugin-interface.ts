@@ -1,6 +1,6 @@
 import { App, Plugin, PluginManifest, TFile } from 'obsidian';
-import type { WritingMomentumSettings, WritingSession, DashboardStats, SessionLog, WritingProfile, Template } from './interfaces';
-import type { PurposeSessionManager } from '../core/purpose-session-manager';
+import type { WritingMomentumSettings, WritingSession, DashboardStats, StreakData, WritingProfile, Template, TemplateOptions, TemplateUpdate, TemplateSnippet, CountUnit, Project, ProjectInput, StreakDefinition, StreakInput, ReminderConfig, ReminderInput, UnitType, WritingWindow, SessionLog, NotificationChannel, PomodoroState, SprintResult, SprintState, PersonalBests } from './interfaces';
+import type { Delivery, NotifyOptions } from '../ui/notifier';
 
 // Define proper interfaces for the various managers
 export interface IDataManager {
@@ -8,30 +8,86 @@ export interface IDataManager {
 	exportData(): Record<string, unknown>;
 	importData(data: Record<string, unknown>): Promise<void>;
 	addSession(session: WritingSession): Promise<void>;
+	mergeSessionLogs(logs: SessionLog[]): Promise<number>;
+	addSprint(sprint: SprintResult): Promise<void>;
+	getSprints(): SprintResult[];
+	getAllSessions(): WritingSession[];
+	getRevision(): number;
 	getTodaysSessions(): WritingSession[];
 	getTodaysWordCount(): number;
+	getDailyGoal(): { unit: UnitType; target: number };
+	getTodaysGoalProgress(unit: UnitType): number;
+	hasMetDailyGoal(): boolean;
+	getGoalProgress(session: WritingSession, unit?: CountUnit): number;
+	isProductive(session: WritingSession): boolean;
+	getActiveMs(session: WritingSession): number;
+	getToday(): string;
+	getDay(timestamp: number): string;
+	getWeekStart(day?: string): string;
+	getWeekStartsOn(): number;
+	isOnVacation(day?: string): boolean;
+	getStreak(): StreakData;
+	applyCalendarSettings(): Promise<void>;
 	loadData(): Promise<void>;
 	saveData(): Promise<void>;
 }
 
 export interface ITemplateEngine {
-	createNoteFromTemplate(customVariables?: Record<string, string>): Promise<TFile>;
+	createNoteFromTemplate(customVariables?: Record<string, string>, template?: Template, useTemplateTarget?: boolean): Promise<TFile | null>;
 	initialize(): Promise<void>;
 }
 
 export interface ISessionManager {
 	getCurrentSession(): WritingSession | null;
 	getSessionStats(): { duration: number; wordCount: number; wpm: number; targetProgress: number | null } | null;
+	getElapsedMs(): number;
+	getPomodoroState(): PomodoroState | null;
+	setActiveProfile(profile: WritingProfile | null): void;
 	startSession(filePath: string, template?: string, targetWordCount?: number): void;
+	pauseSession(): void;
+	resumeSession(): void;
 	completeSession(): void;
+	skipSession(): void;
 	endSession(): void;
 }
 
+export interface ISprintManager {
+	start(durationMin: number, targetWords?: number): void;
+	finish(): Promise<void>;
+	cancel(): void;
+	handleSessionEnd(): void;
+	getState(): SprintState | null;
+	getPersonalBests(durationMin: number): PersonalBests | null;
+}
+
 export interface IReminderScheduler {
 	start(): void;
 	stop(): void;
 	snoozeReminder(reminderId: string, minutes: number): void;
 	reschedule(): void;
+	getNextReminder(): { reminder: ReminderConfig; at: number } | null;
+	testReminder(reminder: ReminderConfig): void;
+}
+
+export interface IReminderManager {
+	getAllReminders(): ReminderConfig[];
+	getReminder(reminderId: string): ReminderConfig | null;
+	createReminder(input: ReminderInput): Promise<ReminderConfig>;
+	updateReminder(reminderId: string, input: ReminderInput): Promise<ReminderConfig>;
+	setEnabled(reminderId: string, enabled: boolean): Promise<void>;
+	deleteReminder(reminderId: string): Promise<void>;
+	describe(reminder: ReminderConfig): string;
+	getWritingWindows(timeZone?: string): WritingWindow[][];
+	getReminderTime(reminder: ReminderConfig, weekday: number, windows?: WritingWindow[][]): number | null;
+	suggestTime(time: string, days: number[]): string | null;
+}
+
+export interface INotifier {
+	getDelivery(channel: NotificationChannel): Delivery;
+	getProfileDelivery(channel: NotificationChannel): Delivery;
+	notify(channel: NotificationChannel, options: NotifyOptions): void;
+	showDesktop(title: string, body: string, onClick?: () => void): boolean;
+	requestPermission(): Promise<boolean>;
 }
 
 export interface IRandomPrompts {
@@ -47,16 +103,44 @@ export interface ITemplateManager {
 	getTemplate(templateId: string): Template | null;
 	getActiveTemplate(): Template | null;
 	setActiveTemplate(templateId: string): Promise<void>;
-	createTemplate(name: string, titlePattern: string, content: string, options?: Partial<Template>): Promise<Template>;
-	updateTemplate(templateId: string, updates: Partial<Template>): Promise<Template>;
+	createTemplate(name: string, titlePattern: string, content: string, options?: TemplateOptions): Promise<Template>;
+	updateTemplate(templateId: string, updates: TemplateUpdate): Promise<Template>;
 	renameTemplate(templateId: string, newName: string): Promise<void>;
 	deleteTemplate(templateId: string): Promise<void>;
 	duplicateTemplate(templateId: string, newName?: string): Promise<Template>;
-	validateTemplate(titlePattern: string, content: string): { valid: boolean; errors: string[] };
+	validateTemplate(titlePattern: string, content: string, template?: Partial<Pick<Template, 'id' | 'name' | 'extends'>>): { valid: boolean; errors: string[] };
 	exportTemplates(): string;
 	importTemplates(jsonString: string): Promise<number>;
 	getUserTemplates(): Template[];
 	getBuiltInTemplates(): Template[];
+	getTemplateFolder(): string;
+	loadTemplateFolder(): Promise<number>;
+	findTemplate(ref: string): Template | null;
+	composeTemplate(template: Pick<Template, 'content'> & Partial<Pick<Template, 'id' | 'name' | 'extends'>>): string;
+	getSnippets(): TemplateSnippet[];
+	getSnippet(name: string): TemplateSnippet | null;
+	saveSnippet(name: string, content: string, description?: string, previousName?: string): Promise<TemplateSnippet>;
+	deleteSnippet(name: string): Promise<void>;
+}
+
+export interface IProjectManager {
+	getAllProjects(): Project[];
+	getProject(projectId: string): Project | null;
+	createProject(input: ProjectInput): Promise<Project>;
+	updateProject(projectId: string, input: ProjectInput): Promise<Project>;
+	deleteProject(projectId: string): Promise<void>;
+	getProjectsForFile(path: string): Project[];
+	attributeSession(session: WritingSession): void;
+}
+
+export interface IStreakManager {
+	getAllStreaks(): StreakDefinition[];
+	getStreak(streakId: string): StreakDefinition | null;
+	createStreak(input: StreakInput): Promise<StreakDefinition>;
+	updateStreak(streakId: string, input: StreakInput): Promise<StreakDefinition>;
+	deleteStreak(streakId: string): Promise<void>;
+	getStatus(definition: StreakDefinition): StreakData;
+	describe(definition: StreakDefinition): string;
 }
 
 export interface IWritingMomentumPlugin extends Plugin {
@@ -66,20 +150,25 @@ export interface IWritingMomentumPlugin extends Plugin {
 	templateEngine: ITemplateEngine;
 	sessionManager: ISessionManager;
 	reminderScheduler: IReminderScheduler;
+	reminderManager: IReminderManager;
+	sprintManager: ISprintManager;
+	notifier: INotifier;
 	randomPrompts: IRandomPrompts;
 	templateManager: ITemplateManager;
+	projectManager: IProjectManager;
+	streakManager: IStreakManager;
 	statusBarItem: HTMLElement | null;
 	manifest: PluginManifest;
 	isMobile: boolean;
 
 	// Purpose-based system
 	activeProfile: WritingProfile | null;
-	sessionLogs: SessionLog[];
-	purposeSessionManager: PurposeSessionManager | null;
 
 	loadData(): Promise<Record<string, unknown>>;
 	saveData(data: Record<string, unknown>): Promise<void>;
 	saveSettings(): Promise<void>;
 	savePurposeData(): Promise<void>;
 	createQuickNote(): Promise<void>;
+	updateStatusBar(): void;
+	refreshDashboard(): void;
 }
\ No newline at end of file
@@ -0,0 +1,28 @@
+/**
+ * Play a short two-note chime. Synthesized so the plugin needs no sound files.
+ */
+export function playChime() {
+  if (typeof AudioContext === 'undefined') return;
+
+  const context = new AudioContext();
+  const notes = [880, 1320]; // A5, then E6
+
+  notes.forEach((frequency, index) => {
+    const start = context.currentTime + index * 0.18;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+
+    oscillator.type = 'sine';
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.exponentialRampToValueAtTime(0.2, start + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.4);
+
+    oscillator.connect(gain);
+    gain.connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.4);
+  });
+
+  window.setTimeout(() => void context.close(), 1000);
+}
@@ -1,4 +1,4 @@
-import { ItemView, WorkspaceLeaf } from 'obsidian';
+import { ItemView, Notice, WorkspaceLeaf } from 'obsidian';
 import type { IWritingMomentumPlugin } from '../types/plugin-interface';
 
 export const VIEW_TYPE_WRITING_DASHBOARD = 'writing-momentum-dashboard';
@@ -83,7 +83,7 @@ export class WritingDashboard extends ItemView {
     quickStartBtn.createEl('span', { text: 'Write', cls: 'btn-right-text' });
 
     quickStartBtn.onclick = async () => {
-      await this.plugin.templateEngine.createNoteFromTemplate();
+      await this.createNote();
     };
 
     // Template option
@@ -98,10 +98,18 @@ export class WritingDashboard extends ItemView {
     templateBtn.createEl('span', { text: 'Create', cls: 'btn-right-text' });
 
     templateBtn.onclick = async () => {
-      await this.plugin.templateEngine.createNoteFromTemplate();
+      await this.createNote();
     };
   }
 
+  private async createNote() {
+    try {
+      await this.plugin.templateEngine.createNoteFromTemplate();
+    } catch (error) {
+      new Notice(`Failed to create note: ${error.message}`);
+    }
+  }
+
   private renderTopCompleteButton(container: Element) {
     const currentSession = this.plugin.sessionManager.getCurrentSession();
     const buttonContainer = container.createEl('div', { cls: 'top-button-container' });
@@ -121,7 +129,7 @@ export class WritingDashboard extends ItemView {
         cls: 'top-start-btn'
       });
       startBtn.onclick = async () => {
-        await this.plugin.templateEngine.createNoteFromTemplate();
+        await this.createNote();
       };
     }
   }
@@ -358,7 +366,7 @@ export class WritingDashboard extends ItemView {
       cls: 'action-btn continuous-start-btn'
     });
     startBtn.onclick = async () => {
-      await this.plugin.templateEngine.createNoteFromTemplate();
+      await this.createNote();
     };
 
     if (currentCount > 0) {
@@ -0,0 +1,86 @@
+import { DEFAULT_SETTINGS } from '../types/interfaces';
+import type { NotificationChannel, WritingProfile } from '../types/interfaces';
+import type { IWritingMomentumPlugin } from '../types/plugin-interface';
+import type { ToastManager, ToastOptions } from './toast';
+
+export type Delivery = 'desktop' | 'app' | 'off';
+
+// How each channel is delivered when it follows the profile's notify level
+const NOTIFY_LEVEL_DELIVERY: Record<NonNullable<WritingProfile['notifyLevel']>, Record<NotificationChannel, Delivery>> = {
+  low: { reminders: 'desktop', milestones: 'app', nudges: 'app', weeklySummary: 'app' },
+  mid: { reminders: 'desktop', milestones: 'app', nudges: 'desktop', weeklySummary: 'app' },
+  high: { reminders: 'desktop', milestones: 'desktop', nudges: 'desktop', weeklySummary: 'desktop' }
+};
+
+export interface NotifyOptions extends ToastOptions {
+  title: string;        // shown by system notifications only
+  onClick?: () => void; // runs when a system notification is clicked
+}
+
+/**
+ * Sends notifications to the system when Obsidian is in the background and
+ * desktop notifications are allowed, and to in-app toasts otherwise.
+ * System notifications raised from Obsidian cannot carry buttons, so clicking
+ * one brings Obsidian to the front, where any actions are shown.
+ */
+export class Notifier {
+  private plugin: IWritingMomentumPlugin;
+  private toastManager: ToastManager;
+
+  constructor(plugin: IWritingMomentumPlugin, toastManager: ToastManager) {
+    this.plugin = plugin;
+    this.toastManager = toastManager;
+  }
+
+  getDelivery(channel: NotificationChannel): Delivery {
+    const channels = { ...DEFAULT_SETTINGS.notifications.channels, ...this.plugin.settings.notifications?.channels };
+    const delivery = channels[channel];
+    return delivery === 'auto' ? this.getProfileDelivery(channel) : delivery;
+  }
+
+  /**
+   * Delivery for a channel that follows the profile's notify level
+   */
+  getProfileDelivery(channel: NotificationChannel): Delivery {
+    const notifyLevel = this.plugin.activeProfile?.notifyLevel || 'mid';
+    return NOTIFY_LEVEL_DELIVERY[notifyLevel][channel];
+  }
+
+  notify(channel: NotificationChannel, options: NotifyOptions) {
+    const delivery = this.getDelivery(channel);
+    if (delivery === 'off') return;
+
+    if (delivery === 'desktop' && this.showDesktop(options.title, options.message, options.onClick)) {
+      return;
+    }
+
+    this.toastManager.showToast(options);
+  }
+
+  /**
+   * Show a system notification. Returns false when the in-app notice should be used
+   * instead: desktop notifications are off or not permitted, or Obsidian is in front.
+   */
+  showDesktop(title: string, body: string, onClick?: () => void): boolean {
+    if (!this.plugin.settings.notifications?.desktop) return false;
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return false;
+    if (document.hasFocus()) return false;
+
+    const notification = new Notification(title, { body });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+      onClick?.();
+    };
+    return true;
+  }
+
+  /**
+   * Ask for permission to show system notifications
+   */
+  async requestPermission(): Promise<boolean> {
+    if (typeof Notification === 'undefined') return false;
+    if (Notification.permission === 'granted') return true;
+    return (await Notification.requestPermission()) === 'granted';
+  }
+}
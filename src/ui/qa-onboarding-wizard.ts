@@ -224,6 +224,16 @@ export class QaOnboardingWizard extends Modal {
         label: '📊 Word Count',
         description: 'Track by number of words written (e.g., 500 words per session)'
       },
+      {
+        value: 'characters',
+        label: '🈶 Characters',
+        description: 'Track by characters written, common for Chinese, Japanese and Korean (e.g., 1000 characters per session)'
+      },
+      {
+        value: 'mixed',
+        label: '🔀 Mixed',
+        description: 'Count words in English and other spaced languages, and each CJK character as one'
+      },
       {
         value: 'minutes',
         label: '⏱️ Time',
@@ -253,6 +263,19 @@ export class QaOnboardingWizard extends Modal {
     });
   }
 
+  private describeFeasibility(words: number, time: string): string {
+    switch (this.answers.unitPref) {
+      case 'characters':
+        return `~${words * 2} characters`;
+      case 'mixed':
+        return `~${words} words/characters`;
+      case 'words':
+        return `~${words} words`;
+      default:
+        return time;
+    }
+  }
+
   private renderRoutineStep(container: HTMLElement) {
     container.createEl('h3', { text: 'About your schedule' });
     container.createEl('p', {
@@ -268,17 +291,17 @@ export class QaOnboardingWizard extends Modal {
       {
         value: 'busy',
         label: 'Busy',
-        description: this.answers.unitPref === 'words' ? '~400 words' : '~15 min per session'
+        description: this.describeFeasibility(400, '~15 min per session')
       },
       {
         value: 'normal',
         label: 'Normal',
-        description: this.answers.unitPref === 'words' ? '~800 words' : '~30 min per session'
+        description: this.describeFeasibility(800, '~30 min per session')
       },
       {
         value: 'free',
         label: 'Flexible',
-        description: this.answers.unitPref === 'words' ? '~1600 words' : '~1 hour per session'
+        description: this.describeFeasibility(1600, '~1 hour per session')
       }
     ];
 
@@ -1,7 +1,15 @@
 import { Modal, App } from 'obsidian';
-import type { WritingProfile, Recommendation } from '../types/interfaces';
+import type { WritingProfile, Recommendation, UnitType } from '../types/interfaces';
+import { UNIT_LABELS } from '../types/interfaces';
 import { EstimationEngine } from '../core/estimation-engine';
 
+const TRACKING_LABELS: Record<UnitType, string> = {
+  words: '📊 Word count',
+  characters: '🈶 Character count',
+  mixed: '🔀 Mixed words and characters',
+  minutes: '⏱️ Time'
+};
+
 export class QaReviewModal extends Modal {
   private profile: WritingProfile;
   private onEdit: () => void;
@@ -53,14 +61,12 @@ export class QaReviewModal extends Modal {
     this.addAnswerRow(
       answersGrid,
       'Tracking method',
-      this.profile.answers.unitPref === 'words' ? '📊 Word count' : '⏱️ Time'
+      TRACKING_LABELS[this.profile.answers.unitPref]
     );
 
     // Target hint (if provided)
     if (this.profile.answers.targetHint) {
-      const hintLabel = this.profile.answers.unitPref === 'words'
-        ? `${this.profile.answers.targetHint} words`
-        : `${this.profile.answers.targetHint} minutes`;
+      const hintLabel = `${this.profile.answers.targetHint} ${UNIT_LABELS[this.profile.answers.unitPref]}`;
       this.addAnswerRow(answersGrid, 'Target hint', hintLabel);
     }
 
@@ -98,9 +104,8 @@ export class QaReviewModal extends Modal {
     );
 
     // Target
-    const targetLabel = this.profile.recommendation.target.type === 'words'
-      ? `${this.profile.recommendation.target.value} words`
-      : `${this.profile.recommendation.target.value} minutes`;
+    const target = this.profile.recommendation.target;
+    const targetLabel = `${target.value} ${UNIT_LABELS[target.type]}`;
     this.addRecCard(recGrid, 'Per-session target', targetLabel, '🎯');
 
     // Weekly frequency
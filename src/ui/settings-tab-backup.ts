@@ -274,13 +274,8 @@ export class WritingMomentumSettingTab extends PluginSettingTab {
 							() => {
 								void (async () => {
 									this.plugin.activeProfile = null;
-									this.plugin.sessionLogs = [];
 									await this.plugin.savePurposeData();
-
-									if (this.plugin.purposeSessionManager) {
-										this.plugin.purposeSessionManager.destroy();
-										this.plugin.purposeSessionManager = null;
-									}
+									this.plugin.sessionManager.setActiveProfile(null);
 
 									this.display();
 								})();
@@ -2,7 +2,21 @@ import { App, PluginSettingTab, Setting, Modal, Notice } from 'obsidian';
 import type { IWritingMomentumPlugin } from '../types/plugin-interface';
 import { WritingPurposeModal } from './writing-purpose-modal';
 import { QaOnboardingWizard } from './qa-onboarding-wizard';
-import type { Template } from '../types/interfaces';
+import type { Template, TemplateSnippet, NoteCollision, WordCountRules, Project, ProjectScope, StreakDefinition, StreakCounts, ReminderConfig, ReminderInput, NotificationChannel, ChannelDelivery } from '../types/interfaces';
+import { DEFAULT_SETTINGS, DEFAULT_SNOOZE_OPTIONS } from '../types/interfaces';
+import { isValidTimeZone } from '../core/dates';
+import { formatSnooze } from '../core/scheduler';
+import { NOTE_COLLISIONS } from '../core/note-paths';
+import { validateTemplateSyntax } from '../core/template-language';
+
+// Snooze lengths a reminder can offer, in minutes
+const SNOOZE_CHOICES = [5, 10, 15, 30, 60, 120];
+
+const DELIVERY_LABELS: Record<Exclude<ChannelDelivery, 'auto'>, string> = {
+	desktop: 'Desktop when in background',
+	app: 'Inside Obsidian',
+	off: 'Off'
+};
 
 class ConfirmModal extends Modal {
 	private message: string;
@@ -113,13 +127,8 @@ export class WritingMomentumSettingTab extends PluginSettingTab {
 							() => {
 						void (async () => {
 								this.plugin.activeProfile = null;
-								this.plugin.sessionLogs = [];
 								await this.plugin.savePurposeData();
-
-								if (this.plugin.purposeSessionManager) {
-									this.plugin.purposeSessionManager.destroy();
-									this.plugin.purposeSessionManager = null;
-								}
+								this.plugin.sessionManager.setActiveProfile(null);
 
 								this.display();
 						})();
@@ -139,6 +148,7 @@ export class WritingMomentumSettingTab extends PluginSettingTab {
 							void (async () => {
 							this.plugin.activeProfile = profile;
 							await this.plugin.savePurposeData();
+							this.plugin.sessionManager.setActiveProfile(profile);
 							this.display();
 							})();
 						}).open();
@@ -187,25 +197,68 @@ export class WritingMomentumSettingTab extends PluginSettingTab {
 		new Setting(containerEl).setName("⏰ reminders and notifications").setHeading();
 
 		new Setting(containerEl)
-			.setName('Default reminder time')
-			.setDesc('Time for daily writing reminders (24-hour format)')
-			.addText(text => text
-				.setPlaceholder('21:00')
-				.setValue(this.plugin.settings.reminders[0]?.time || '21:00')
+			.setName('Reminders')
+			.setDesc('Nudges to write at set times, each with its own days, template and quiet hours')
+			.addButton(button => button
+				.setButtonText('+ new reminder')
+				.setClass('mod-cta')
+				.onClick(() => {
+					new ReminderEditorModal(this.app, this.plugin, null, () => {
+						this.display();
+					}).open();
+				}));
+
+		const reminderListContainer = containerEl.createDiv('reminder-list-container');
+		this.renderReminderList(reminderListContainer);
+
+		// Ensure notification settings exist
+		if (!this.plugin.settings.notifications) {
+			this.plugin.settings.notifications = { ...DEFAULT_SETTINGS.notifications };
+		}
+		this.plugin.settings.notifications.channels = {
+			...DEFAULT_SETTINGS.notifications.channels,
+			...this.plugin.settings.notifications.channels
+		};
+
+		new Setting(containerEl)
+			.setName('Desktop notifications')
+			.setDesc('Use system notifications while Obsidian is in the background. System notifications cannot show buttons; clicking a reminder opens Obsidian, where its start, snooze and skip buttons are.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.notifications.desktop)
 				.onChange(async (value) => {
-					if (this.plugin.settings.reminders.length === 0) {
-						this.plugin.settings.reminders.push({
-							id: 'default-reminder',
-							days: [1, 2, 3, 4, 5, 6, 0],
-							time: value,
-							enabled: true
-						});
-					} else {
-						this.plugin.settings.reminders[0].time = value;
+					if (value && !(await this.plugin.notifier.requestPermission())) {
+						new Notice('System notifications are blocked. Allow them for Obsidian in your system settings.');
+						toggle.setValue(false);
+						return;
 					}
+					this.plugin.settings.notifications.desktop = value;
 					await this.plugin.saveSettings();
 				}));
 
+		const notifyLevel = this.plugin.activeProfile?.notifyLevel || 'mid';
+		const channels: Array<[NotificationChannel, string]> = [
+			['reminders', 'Reminders'],
+			['milestones', 'Session milestones'],
+			['nudges', 'Weekly plan nudges'],
+			['weeklySummary', 'Weekly summary']
+		];
+		for (const [channel, name] of channels) {
+			const followed = DELIVERY_LABELS[this.plugin.notifier.getProfileDelivery(channel)].toLowerCase();
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(`Following your profile's ${notifyLevel} notification level: ${followed}`)
+				.addDropdown(dropdown => dropdown
+					.addOption('auto', 'Follow profile')
+					.addOption('desktop', DELIVERY_LABELS.desktop)
+					.addOption('app', DELIVERY_LABELS.app)
+					.addOption('off', DELIVERY_LABELS.off)
+					.setValue(this.plugin.settings.notifications.channels[channel])
+					.onChange(async (value) => {
+						this.plugin.settings.notifications.channels[channel] = value as ChannelDelivery;
+						await this.plugin.saveSettings();
+					}));
+		}
+
 		// Template Configuration
 		new Setting(containerEl).setName("📝 template management").setHeading();
 
@@ -217,9 +270,20 @@ export class WritingMomentumSettingTab extends PluginSettingTab {
 			'{{date}} - Current date (format configurable)',
 			'{{time}} - Current time (HH:MM)',
 			'{{weekday}} - Day of the week',
+			'{{week_start}}, {{week_end}}, {{month_start}}, {{month_end}} - Dates around today',
 			'{{vault}} - Your vault name',
 			'{{random_prompt}} - Random writing prompt',
-			'{{title}} - Custom title (if provided)'
+			'{{title}} - Custom title (if provided)',
+			'{{category}}, {{template}} - The template\'s category and name',
+			'{{date:dddd, MMMM D}} - Any date in your own format',
+			'{{date+1d}}, {{date-2w}} - Dates offset by days, weeks, months (m) or years (y)',
+			'{{title|Untitled}} - A default for empty values',
+			'{{title|slug}} - Filters: upper, lower, capitalize, slug, trim',
+			'{{#if weekday == "Friday"}}…{{else}}…{{/if}} - Conditions with ==, !=, in, not, and, or',
+			'{{#each 3}}- {{this}}{{/each}} - Loops over a number or a comma-separated list',
+			'{{> name}} - Includes a snippet',
+			'{{#block name}}…{{/block}} - A part that templates extending this one can replace; {{super}} keeps the original inside the replacement',
+			'Any other {{name}} is asked for before the note is created. Declare text, choice, date or number fields under "variables:" in the template\'s frontmatter.'
 		];
 		variables.forEach(variable => {
 			const li = variablesList.createEl('li');
@@ -292,12 +356,384 @@ export class WritingMomentumSettingTab extends PluginSettingTab {
 		const templateListContainer = containerEl.createDiv('template-list-container');
 		this.renderTemplateList(templateListContainer);
 
+		// Snippets
+		new Setting(containerEl)
+			.setName('Snippets')
+			.setDesc('Reusable pieces of content that any template can include with {{> name}}')
+			.addButton(button => button
+				.setButtonText('+ new snippet')
+				.onClick(() => {
+					new SnippetEditorModal(this.app, this.plugin, null, () => {
+						this.display();
+					}).open();
+				}));
+
+		const snippetListContainer = containerEl.createDiv('snippet-list-container');
+		this.renderSnippetList(snippetListContainer);
+
+		// Projects
+		new Setting(containerEl).setName("📚 projects").setHeading();
+
+		new Setting(containerEl)
+			.setDesc('Track separate goals for notes grouped by folder, tag or a list of notes. Words written in a session count toward every project its notes belong to.')
+			.addButton(button => button
+				.setButtonText('+ new project')
+				.setClass('mod-cta')
+				.onClick(() => {
+					new ProjectEditorModal(this.app, this.plugin, null, () => {
+						this.display();
+					}).open();
+				}));
+
+		const projectListContainer = containerEl.createDiv('project-list-container');
+		this.renderProjectList(projectListContainer);
+
+		// Word Counting
+		new Setting(containerEl).setName("🔢 word counting").setHeading();
+
+		// Ensure wordCount object exists
+		if (!this.plugin.settings.wordCount) {
+			this.plugin.settings.wordCount = { ...DEFAULT_SETTINGS.wordCount };
+		}
+
+		containerEl.createEl('p', {
+			text: 'Frontmatter, comments, markup, links to websites and embeds are never counted. Changes apply to sessions started afterwards.',
+			cls: 'setting-item-description'
+		});
+
+		new Setting(containerEl)
+			.setName('Count code')
+			.setDesc('Include fenced code blocks and inline code')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.wordCount.countCode)
+				.onChange(async (value) => {
+					this.plugin.settings.wordCount.countCode = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Count quotes')
+			.setDesc('Include blockquotes and callouts')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.wordCount.countQuotes)
+				.onChange(async (value) => {
+					this.plugin.settings.wordCount.countQuotes = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Count footnotes')
+			.setDesc('Include footnote definitions')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.wordCount.countFootnotes)
+				.onChange(async (value) => {
+					this.plugin.settings.wordCount.countFootnotes = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Count headings')
+			.setDesc('Include heading text')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.wordCount.countHeadings)
+				.onChange(async (value) => {
+					this.plugin.settings.wordCount.countHeadings = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Links')
+			.setDesc('Which part of a link counts as words')
+			.addDropdown(dropdown => dropdown
+				.addOption('text', 'Displayed text')
+				.addOption('target', 'Link target')
+				.addOption('both', 'Text and target')
+				.setValue(this.plugin.settings.wordCount.links)
+				.onChange(async (value) => {
+					this.plugin.settings.wordCount.links = value as WordCountRules['links'];
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Split unspaced text into words')
+			.setDesc('Uses dictionary-based segmentation for text written without spaces. When off, or when unsupported on this device, each character counts as one word.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.wordCount.segmentCjk)
+				.onChange(async (value) => {
+					this.plugin.settings.wordCount.segmentCjk = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Count editing as writing')
+			.setDesc('Words changed or deleted during a session count toward word goals and keep your streak going')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.streakRule.countEditing ?? false)
+				.onChange(async (value) => {
+					this.plugin.settings.streakRule.countEditing = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Automatic Sessions
+		new Setting(containerEl).setName("🚦 automatic sessions").setHeading();
+
+		// Ensure autoSession object exists
+		if (!this.plugin.settings.autoSession) {
+			this.plugin.settings.autoSession = { ...DEFAULT_SETTINGS.autoSession };
+		}
+
+		containerEl.createEl('p', {
+			text: 'A note matches when it is in one of the folders, has one of the tags or frontmatter properties, and is not excluded.',
+			cls: 'setting-item-description'
+		});
+
+		new Setting(containerEl)
+			.setName('Start sessions automatically')
+			.setDesc('Start a session when you open a matching note')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.autoSession.autoStart)
+				.onChange(async (value) => {
+					this.plugin.settings.autoSession.autoStart = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Add notes to the running session')
+			.setDesc('Track matching notes you open while a session is running')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.autoSession.autoAttach)
+				.onChange(async (value) => {
+					this.plugin.settings.autoSession.autoAttach = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.addRuleList(containerEl, 'folders', 'Folders', 'One folder or glob per line', 'journal/**');
+		this.addRuleList(containerEl, 'tags', 'Tags', 'One tag per line, nested tags are included', 'draft');
+		this.addRuleList(containerEl, 'frontmatter', 'Frontmatter', 'One property per line, as "key" or "key: value"', 'status: drafting');
+		this.addRuleList(containerEl, 'exclude', 'Excluded paths', 'Notes in these folders or globs never match', 'journal/templates/**');
+
+		new Setting(containerEl)
+			.setName('Pause when idle (minutes)')
+			.setDesc('Pause the session after this many minutes without edits and resume it when you type again. Idle time does not count toward time goals or words per minute. Set to 0 to turn off.')
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text.setValue(String(this.plugin.settings.autoSession.idlePauseMin ?? DEFAULT_SETTINGS.autoSession.idlePauseMin))
+					.onChange(async (value) => {
+						const minutes = parseInt(value, 10);
+						this.plugin.settings.autoSession.idlePauseMin = minutes > 0 ? minutes : 0;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Idle timeout (minutes)')
+			.setDesc('End the session after this many minutes without edits. Set to 0 to never end it automatically.')
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text.setValue(String(this.plugin.settings.autoSession.idleTimeoutMin))
+					.onChange(async (value) => {
+						const minutes = parseInt(value, 10);
+						this.plugin.settings.autoSession.idleTimeoutMin = minutes > 0 ? minutes : 0;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		// Pomodoro
+		new Setting(containerEl).setName("🍅 pomodoro").setHeading();
+
+		if (!this.plugin.settings.pomodoro) {
+			this.plugin.settings.pomodoro = { ...DEFAULT_SETTINGS.pomodoro };
+		}
+		const pomodoro = this.plugin.settings.pomodoro;
+
+		new Setting(containerEl)
+			.setName('Pomodoro timer')
+			.setDesc('Alternate focus periods and breaks during sessions, with a countdown in the status bar and dashboard. Pausing the session pauses the timer.')
+			.addToggle(toggle => toggle
+				.setValue(pomodoro.enabled)
+				.onChange(async (value) => {
+					pomodoro.enabled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.addMinutesSetting(containerEl, 'Focus length (minutes)', 'Set to 0 to use the session length from your writing profile', 'focusMin');
+		this.addMinutesSetting(containerEl, 'Short break (minutes)', 'Set to 0 to use the break length from your writing profile', 'shortBreakMin');
+		this.addMinutesSetting(containerEl, 'Long break (minutes)', 'Break taken after a full cycle of focus periods', 'longBreakMin');
+
+		new Setting(containerEl)
+			.setName('Focus periods per cycle')
+			.setDesc('Take a long break after this many focus periods')
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text.setValue(String(pomodoro.longBreakEvery))
+					.onChange(async (value) => {
+						const count = parseInt(value, 10);
+						pomodoro.longBreakEvery = count > 0 ? count : 1;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Play a sound')
+			.setDesc('Chime when a focus period or break ends')
+			.addToggle(toggle => toggle
+				.setValue(pomodoro.sound)
+				.onChange(async (value) => {
+					pomodoro.sound = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Calendar
+		new Setting(containerEl).setName("📅 days and streaks").setHeading();
+
+		// Ensure calendar object exists
+		if (!this.plugin.settings.calendar) {
+			this.plugin.settings.calendar = { ...DEFAULT_SETTINGS.calendar };
+		}
+
+		const deviceTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+		new Setting(containerEl)
+			.setName('Time zone')
+			.setDesc(`Decides which day your sessions and streak fall on. Leave empty to use this device's time zone (${deviceTimeZone}).`)
+			.addText(text => text
+				.setPlaceholder(deviceTimeZone)
+				.setValue(this.plugin.settings.calendar.timeZone)
+				.onChange(async (value) => {
+					const timeZone = value.trim();
+					if (timeZone && !isValidTimeZone(timeZone)) return;
+
+					this.plugin.settings.calendar.timeZone = timeZone;
+					await this.plugin.saveSettings();
+					await this.plugin.dataManager.applyCalendarSettings();
+					this.plugin.refreshDashboard();
+				}));
+
+		new Setting(containerEl)
+			.setName('Day starts at')
+			.setDesc('Writing after midnight but before this hour counts toward the previous day')
+			.addDropdown(dropdown => {
+				for (let hour = 0; hour < 12; hour++) {
+					dropdown.addOption(String(hour), hour === 0 ? 'Midnight' : `${hour.toString().padStart(2, '0')}:00`);
+				}
+				dropdown
+					.setValue(String(this.plugin.settings.calendar.dayStartHour))
+					.onChange(async (value) => {
+						this.plugin.settings.calendar.dayStartHour = parseInt(value, 10);
+						await this.plugin.saveSettings();
+						await this.plugin.dataManager.applyCalendarSettings();
+						this.plugin.refreshDashboard();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Week starts on')
+			.setDesc('Used for weekly streaks, weekly plans and the heatmap.')
+			.addDropdown(dropdown => dropdown
+				.addOption('0', 'Sunday')
+				.addOption('1', 'Monday')
+				.setValue(String(this.plugin.settings.calendar.weekStartsOn ?? 0))
+				.onChange(async (value) => {
+					this.plugin.settings.calendar.weekStartsOn = parseInt(value, 10);
+					await this.plugin.saveSettings();
+					await this.plugin.dataManager.applyCalendarSettings();
+					this.plugin.refreshDashboard();
+				}));
+
+		new Setting(containerEl)
+			.setName('Days off')
+			.setDesc('Days that never break a daily streak. Writing on them still counts.')
+			.then(setting => {
+				const restDays = this.plugin.settings.streakRule.restDays || [];
+				['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].forEach((day, index) => {
+					const dayBtn = setting.controlEl.createEl('button', { text: day, cls: 'rest-day-btn' });
+					dayBtn.toggleClass('is-selected', restDays.includes(index));
+					dayBtn.addEventListener('click', async () => {
+						const selected = this.plugin.settings.streakRule.restDays || [];
+						this.plugin.settings.streakRule.restDays = selected.includes(index)
+							? selected.filter(d => d !== index)
+							: [...selected, index].sort((a, b) => a - b);
+						dayBtn.toggleClass('is-selected', !selected.includes(index));
+						await this.plugin.saveSettings();
+						this.plugin.refreshDashboard();
+					});
+				});
+			});
+
+		const freezes = this.plugin.dataManager.getStreak().freezes || 0;
+		new Setting(containerEl)
+			.setName('Earn streak freezes')
+			.setDesc(`A week with at least this many writing days earns a freeze, which covers one missed day or week once grace is used up. Set to 0 to turn off. Freezes saved: ${freezes}.`)
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text.setValue(String(this.plugin.settings.streakRule.freezeAfterDays ?? DEFAULT_SETTINGS.streakRule.freezeAfterDays))
+					.onChange(async (value) => {
+						const days = parseInt(value, 10);
+						this.plugin.settings.streakRule.freezeAfterDays = days > 0 ? Math.min(days, 7) : 0;
+						await this.plugin.saveSettings();
+						this.plugin.refreshDashboard();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Most freezes saved')
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text.setValue(String(this.plugin.settings.streakRule.maxFreezes ?? DEFAULT_SETTINGS.streakRule.maxFreezes))
+					.onChange(async (value) => {
+						const max = parseInt(value, 10);
+						this.plugin.settings.streakRule.maxFreezes = max > 0 ? max : 0;
+						await this.plugin.saveSettings();
+						this.plugin.refreshDashboard();
+					});
+			});
+
+		// Ensure vacation object exists
+		if (!this.plugin.settings.vacation) {
+			this.plugin.settings.vacation = { ...DEFAULT_SETTINGS.vacation };
+		}
+
+		new Setting(containerEl)
+			.setName('Vacation mode')
+			.setDesc('Pauses your streak, nudges and reminders between the dates below')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.vacation.enabled)
+				.onChange(async (value) => {
+					const vacation = this.plugin.settings.vacation;
+					vacation.enabled = value;
+					// Without a start date the vacation would excuse every missed day in the past
+					if (value && !vacation.start) {
+						vacation.start = this.plugin.dataManager.getToday();
+					}
+					await this.plugin.saveSettings();
+					this.plugin.refreshDashboard();
+					this.display();
+				}));
+
+		this.addVacationDate(containerEl, 'start', 'Vacation starts', 'First day off');
+		this.addVacationDate(containerEl, 'end', 'Vacation ends', 'Last day off. Leave empty to stay on vacation until you turn it off.');
+
+		new Setting(containerEl)
+			.setName('More streaks')
+			.setDesc('Track other habits next to your writing streak, such as a word count every day or sessions per week on one project')
+			.addButton(button => button
+				.setButtonText('+ new streak')
+				.setClass('mod-cta')
+				.onClick(() => {
+					new StreakEditorModal(this.app, this.plugin, null, () => {
+						this.display();
+					}).open();
+				}));
+
+		const streakListContainer = containerEl.createDiv('streak-list-container');
+		this.renderStreakList(streakListContainer);
+
 		// File Paths
 		new Setting(containerEl).setName("📁 file paths").setHeading();
 
 		// Ensure paths object exists
 		if (!this.plugin.settings.paths) {
-			this.plugin.settings.paths = { prompts: '' };
+			this.plugin.settings.paths = { prompts: '', templates: '' };
 		}
 
 		new Setting(containerEl)
@@ -311,6 +747,33 @@ export class WritingMomentumSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Templates folder')
+			.setDesc('Keep each custom template as a note in this folder, with its name, category, title pattern, note location and target in the frontmatter. Edits in either place are synced. Leave empty to keep templates in the plugin settings only.')
+			.addText(text => text
+				.setPlaceholder('Templates')
+				.setValue(this.plugin.settings.paths.templates || '')
+				.onChange(async (value) => {
+					this.plugin.settings.paths.templates = value.trim();
+					await this.plugin.saveSettings();
+				}))
+			.addButton(button => button
+				.setButtonText('Sync')
+				.setTooltip('Read the folder and write templates that have no note yet')
+				.onClick(() => {
+					void (async () => {
+						try {
+							const count = await this.plugin.templateManager.loadTemplateFolder();
+							new Notice(this.plugin.templateManager.getTemplateFolder()
+								? `Synced ${count} template note(s)`
+								: 'Set a templates folder first');
+							this.display();
+						} catch (error) {
+							new Notice(`Error: ${error.message}`);
+						}
+					})();
+				}));
+
 		// Data Management
 		new Setting(containerEl).setName("💾 data management").setHeading();
 
@@ -341,45 +804,305 @@ export class WritingMomentumSettingTab extends PluginSettingTab {
 		return labels[purpose] || purpose;
 	}
 
-	private renderTemplateList(container: HTMLElement): void {
-		container.empty();
-
-		const templates = this.plugin.templateManager.getAllTemplates();
-
-		// Separate built-in and custom templates
-		const builtInTemplates = templates.filter(t => t.isBuiltIn);
-		const customTemplates = templates.filter(t => !t.isBuiltIn);
+	private addVacationDate(container: HTMLElement, key: 'start' | 'end', name: string, desc: string): void {
+		new Setting(container)
+			.setName(name)
+			.setDesc(desc)
+			.addText(text => {
+				text.inputEl.type = 'date';
+				text.setValue(this.plugin.settings.vacation[key])
+					.onChange(async (value) => {
+						if (value && !/^\d{4}-\d{2}-\d{2}$/.test(value)) return;
+						this.plugin.settings.vacation[key] = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshDashboard();
+					});
+			});
+	}
 
-		// Built-in templates section
-		if (builtInTemplates.length > 0) {
-			new Setting(container).setName("Built-in").setHeading();
-			builtInTemplates.forEach(template => {
-				this.renderTemplateItem(container, template, true);
+	private addRuleList(
+		container: HTMLElement,
+		key: 'folders' | 'tags' | 'frontmatter' | 'exclude',
+		name: string,
+		desc: string,
+		placeholder: string
+	): void {
+		new Setting(container)
+			.setName(name)
+			.setDesc(desc)
+			.addTextArea(textArea => {
+				textArea.inputEl.rows = 3;
+				textArea.setValue(this.plugin.settings.autoSession[key].join('\n'))
+					.setPlaceholder(placeholder)
+					.onChange(async (value) => {
+						this.plugin.settings.autoSession[key] = value
+							.split('\n')
+							.map(line => line.trim())
+							.filter(line => line.length > 0);
+						await this.plugin.saveSettings();
+					});
 			});
-		}
+	}
 
-		// Custom templates section
-		if (customTemplates.length > 0) {
-			new Setting(container).setName("Custom").setHeading();
-			customTemplates.forEach(template => {
-				this.renderTemplateItem(container, template, false);
+	private addMinutesSetting(
+		container: HTMLElement,
+		name: string,
+		desc: string,
+		key: 'focusMin' | 'shortBreakMin' | 'longBreakMin'
+	): void {
+		new Setting(container)
+			.setName(name)
+			.setDesc(desc)
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text.setValue(String(this.plugin.settings.pomodoro[key]))
+					.onChange(async (value) => {
+						const minutes = parseInt(value, 10);
+						this.plugin.settings.pomodoro[key] = minutes > 0 ? minutes : 0;
+						await this.plugin.saveSettings();
+					});
 			});
-		}
+	}
 
-		if (customTemplates.length === 0) {
-			const emptyState = container.createDiv('template-empty-state');
-			emptyState.createEl('p', { text: 'No custom templates yet. Click "new template" to create one.' });
+	private renderReminderList(container: HTMLElement): void {
+		container.empty();
+
+		const reminders = this.plugin.reminderManager.getAllReminders();
+		if (reminders.length === 0) {
+			container.createEl('p', { text: 'No reminders yet.', cls: 'setting-item-description' });
+			return;
 		}
+
+		reminders.forEach(reminder => {
+			new Setting(container)
+				.setName(this.plugin.reminderManager.describe(reminder))
+				.addToggle(toggle => toggle
+					.setTooltip('Enabled')
+					.setValue(reminder.enabled)
+					.onChange(async (value) => {
+						try {
+							await this.plugin.reminderManager.setEnabled(reminder.id, value);
+						} catch (error) {
+							new Notice(`Error: ${error.message}`);
+						}
+					}))
+				.addButton(button => button
+					.setIcon('bell')
+					.setTooltip('Test reminder')
+					.onClick(() => {
+						this.plugin.reminderScheduler.testReminder(reminder);
+					}))
+				.addButton(button => button
+					.setIcon('pencil')
+					.setTooltip('Edit reminder')
+					.onClick(() => {
+						new ReminderEditorModal(this.app, this.plugin, reminder, () => {
+							this.display();
+						}).open();
+					}))
+				.addButton(button => button
+					.setIcon('trash')
+					.setTooltip('Delete reminder')
+					.setClass('mod-warning')
+					.onClick(() => {
+						new ConfirmModal(
+							this.app,
+							`Delete the reminder at ${reminder.time}?`,
+							() => {
+								void (async () => {
+									try {
+										await this.plugin.reminderManager.deleteReminder(reminder.id);
+										this.display();
+									} catch (error) {
+										new Notice(`Error: ${error.message}`);
+									}
+								})();
+							}
+						).open();
+					}));
+		});
 	}
 
-	private renderTemplateItem(container: HTMLElement, template: Template, isBuiltIn: boolean): void {
-		const setting = new Setting(container)
-			.setName(template.name)
-			.setDesc(template.description || `Title: ${template.titlePattern}`);
+	private renderStreakList(container: HTMLElement): void {
+		container.empty();
 
-		// Preview button
-		setting.addButton(button => button
-			.setButtonText('Preview')
+		this.plugin.streakManager.getAllStreaks().forEach(streak => {
+			const { current, longest } = this.plugin.streakManager.getStatus(streak);
+			new Setting(container)
+				.setName(streak.name)
+				.setDesc(`${this.plugin.streakManager.describe(streak)} · current ${current}, best ${longest}`)
+				.addButton(button => button
+					.setIcon('pencil')
+					.setTooltip('Edit streak')
+					.onClick(() => {
+						new StreakEditorModal(this.app, this.plugin, streak, () => {
+							this.display();
+						}).open();
+					}))
+				.addButton(button => button
+					.setIcon('trash')
+					.setTooltip('Delete streak')
+					.setClass('mod-warning')
+					.onClick(() => {
+						new ConfirmModal(
+							this.app,
+							`Delete streak "${streak.name}"? Your sessions are kept.`,
+							() => {
+								void (async () => {
+									try {
+										await this.plugin.streakManager.deleteStreak(streak.id);
+										this.display();
+									} catch (error) {
+										new Notice(`Error: ${error.message}`);
+									}
+								})();
+							}
+						).open();
+					}));
+		});
+	}
+
+	private renderProjectList(container: HTMLElement): void {
+		container.empty();
+
+		const projects = this.plugin.projectManager.getAllProjects();
+		if (projects.length === 0) {
+			container.createEl('p', { text: 'No projects yet.', cls: 'setting-item-description' });
+			return;
+		}
+
+		projects.forEach(project => {
+			new Setting(container)
+				.setName(project.name)
+				.setDesc(this.describeProject(project))
+				.addButton(button => button
+					.setIcon('pencil')
+					.setTooltip('Edit project')
+					.onClick(() => {
+						new ProjectEditorModal(this.app, this.plugin, project, () => {
+							this.display();
+						}).open();
+					}))
+				.addButton(button => button
+					.setIcon('trash')
+					.setTooltip('Delete project')
+					.setClass('mod-warning')
+					.onClick(() => {
+						new ConfirmModal(
+							this.app,
+							`Delete project "${project.name}"? Your notes and sessions are kept.`,
+							() => {
+								void (async () => {
+									try {
+										await this.plugin.projectManager.deleteProject(project.id);
+										this.display();
+									} catch (error) {
+										new Notice(`Error: ${error.message}`);
+									}
+								})();
+							}
+						).open();
+					}));
+		});
+	}
+
+	private describeProject(project: Project): string {
+		const scope = project.scope === 'folder'
+			? `Folder: ${project.folder}`
+			: project.scope === 'tag'
+				? `Tag: #${project.tag}`
+				: `${project.files?.length || 0} notes`;
+
+		const parts = [scope, `${project.targetWords} words`];
+		if (project.deadline) {
+			parts.push(`due ${project.deadline}`);
+		}
+		if (project.sessionsPerWeek) {
+			parts.push(`${project.sessionsPerWeek}× per week`);
+		}
+		return parts.join(' · ');
+	}
+
+	private renderTemplateList(container: HTMLElement): void {
+		container.empty();
+
+		const templates = this.plugin.templateManager.getAllTemplates();
+
+		// Separate built-in and custom templates
+		const builtInTemplates = templates.filter(t => t.isBuiltIn);
+		const customTemplates = templates.filter(t => !t.isBuiltIn);
+
+		// Built-in templates section
+		if (builtInTemplates.length > 0) {
+			new Setting(container).setName("Built-in").setHeading();
+			builtInTemplates.forEach(template => {
+				this.renderTemplateItem(container, template, true);
+			});
+		}
+
+		// Custom templates section
+		if (customTemplates.length > 0) {
+			new Setting(container).setName("Custom").setHeading();
+			customTemplates.forEach(template => {
+				this.renderTemplateItem(container, template, false);
+			});
+		}
+
+		if (customTemplates.length === 0) {
+			const emptyState = container.createDiv('template-empty-state');
+			emptyState.createEl('p', { text: 'No custom templates yet. Click "new template" to create one.' });
+		}
+	}
+
+	private renderSnippetList(container: HTMLElement): void {
+		container.empty();
+
+		for (const snippet of this.plugin.templateManager.getSnippets()) {
+			new Setting(container)
+				.setName(`{{> ${snippet.name}}}`)
+				.setDesc(snippet.description || snippet.content.split('\n')[0])
+				.addButton(button => button
+					.setIcon('pencil')
+					.setTooltip('Edit snippet')
+					.onClick(() => {
+						new SnippetEditorModal(this.app, this.plugin, snippet, () => {
+							this.display();
+						}).open();
+					}))
+				.addButton(button => button
+					.setIcon('trash')
+					.setTooltip('Delete snippet')
+					.setClass('mod-warning')
+					.onClick(() => {
+						new ConfirmModal(
+							this.app,
+							`Delete snippet "${snippet.name}"?`,
+							() => {
+								void (async () => {
+									try {
+										await this.plugin.templateManager.deleteSnippet(snippet.name);
+										this.display();
+									} catch (error) {
+										new Notice(`Error: ${error.message}`);
+									}
+								})();
+							}
+						).open();
+					}));
+		}
+	}
+
+	private renderTemplateItem(container: HTMLElement, template: Template, isBuiltIn: boolean): void {
+		const setting = new Setting(container)
+			.setName(template.name)
+			.setDesc(template.description || `Title: ${template.titlePattern}`);
+		if (template.sourcePath) {
+			setting.descEl.createDiv({ text: `📄 ${template.sourcePath}`, cls: 'template-source-path' });
+		}
+
+		// Preview button
+		setting.addButton(button => button
+			.setButtonText('Preview')
 			.setTooltip('View template content')
 			.onClick(() => {
 				new TemplatePreviewModal(this.app, template).open();
@@ -463,6 +1186,12 @@ class TemplateEditorModal extends Modal {
 	contentTextarea: HTMLTextAreaElement;
 	descriptionInput: HTMLInputElement;
 	categoryDropdown: HTMLSelectElement;
+	extendsDropdown: HTMLSelectElement;
+	folderInput: HTMLInputElement;
+	fileNameInput: HTMLInputElement;
+	collisionDropdown: HTMLSelectElement;
+	createFolders: boolean;
+	targetInput: HTMLInputElement;
 
 	constructor(app: App, plugin: IWritingMomentumPlugin, template: Template | null, onSave: () => void) {
 		super(app);
@@ -501,6 +1230,20 @@ class TemplateEditorModal extends Modal {
 					.setValue(this.template?.category || 'custom');
 			});
 
+		// Parent template
+		new Setting(contentEl)
+			.setName('Extends')
+			.setDesc('Start from another template and replace only its {{#block}} parts with the blocks below')
+			.addDropdown(dropdown => {
+				this.extendsDropdown = dropdown.selectEl;
+				dropdown.addOption('', 'Nothing');
+				this.plugin.templateManager.getAllTemplates()
+					.filter(t => t.id !== this.template?.id)
+					.forEach(t => dropdown.addOption(t.id, t.name));
+				const parent = this.template?.extends ? this.plugin.templateManager.findTemplate(this.template.extends) : null;
+				dropdown.setValue(parent?.id || '');
+			});
+
 		// Description
 		new Setting(contentEl)
 			.setName('Description')
@@ -511,6 +1254,56 @@ class TemplateEditorModal extends Modal {
 					.setPlaceholder('What is this template for?');
 			});
 
+		// Note location
+		new Setting(contentEl)
+			.setName('Note folder')
+			.setDesc('Where notes from this template are created. Date parts like {{YYYY}}, {{MM}} and {{DD}} make subfolders.')
+			.addText(text => {
+				this.folderInput = text.inputEl;
+				text.setValue(this.template?.filePaths?.folder || '')
+					.setPlaceholder('Journal/{{YYYY}}/{{MM}}');
+			});
+
+		new Setting(contentEl)
+			.setName('File name')
+			.setDesc('Pattern for the file name, without .md. Leave empty to use the title.')
+			.addText(text => {
+				this.fileNameInput = text.inputEl;
+				text.setValue(this.template?.filePaths?.pattern || '')
+					.setPlaceholder('{{date}} journal');
+			});
+
+		new Setting(contentEl)
+			.setName('If the note exists')
+			.addDropdown(dropdown => {
+				this.collisionDropdown = dropdown.selectEl;
+				for (const [value, label] of Object.entries(NOTE_COLLISIONS)) {
+					dropdown.addOption(value, label);
+				}
+				dropdown.setValue(this.template?.filePaths?.collision || 'suffix');
+			});
+
+		this.createFolders = this.template?.filePaths?.createFolders !== false;
+		new Setting(contentEl)
+			.setName('Create missing folders')
+			.setDesc('When off, creating a note in a folder that does not exist fails')
+			.addToggle(toggle => toggle
+				.setValue(this.createFolders)
+				.onChange(value => {
+					this.createFolders = value;
+				}));
+
+		// Word target
+		new Setting(contentEl)
+			.setName('Word target')
+			.setDesc('Target for sessions started from this template. Leave empty to use your profile\'s.')
+			.addText(text => {
+				this.targetInput = text.inputEl;
+				text.inputEl.type = 'number';
+				text.setValue(this.template?.target ? String(this.template.target) : '')
+					.setPlaceholder('500');
+			});
+
 		// Title pattern
 		const titleSetting = new Setting(contentEl)
 			.setName('Title pattern')
@@ -559,9 +1352,22 @@ class TemplateEditorModal extends Modal {
 		const content = this.contentTextarea.value.trim();
 		const description = this.descriptionInput.value.trim();
 		const category = this.categoryDropdown.value as 'daily' | 'blog' | 'fiction' | 'custom';
+		const filePaths = {
+			folder: this.folderInput.value,
+			pattern: this.fileNameInput.value,
+			collision: this.collisionDropdown.value as NoteCollision,
+			createFolders: this.createFolders
+		};
+		const target = parseInt(this.targetInput.value, 10);
+
+		const parentId = this.extendsDropdown.value;
 
 		// Validate
-		const validation = this.plugin.templateManager.validateTemplate(titlePattern, content);
+		const validation = this.plugin.templateManager.validateTemplate(titlePattern, content, {
+			id: this.template?.id,
+			name,
+			extends: parentId || undefined
+		});
 		if (!validation.valid) {
 			new Notice(`Validation errors:\n${validation.errors.join('\n')}`);
 			return;
@@ -572,6 +1378,17 @@ class TemplateEditorModal extends Modal {
 			return;
 		}
 
+		const pathError = validateTemplateSyntax(filePaths.folder) || validateTemplateSyntax(filePaths.pattern);
+		if (pathError) {
+			new Notice(`Note location: ${pathError}`);
+			return;
+		}
+
+		if (this.targetInput.value.trim() && !(target > 0)) {
+			new Notice('Word target must be a positive number');
+			return;
+		}
+
 		try {
 			if (this.template) {
 				// Update existing template
@@ -580,7 +1397,10 @@ class TemplateEditorModal extends Modal {
 					titlePattern,
 					content,
 					description: description || undefined,
-					category
+					category,
+					filePaths,
+					target: target > 0 ? target : 0,
+					extends: parentId
 				});
 			} else {
 				// Create new template
@@ -590,7 +1410,10 @@ class TemplateEditorModal extends Modal {
 					content,
 					{
 						description: description || undefined,
-						category
+						category,
+						filePaths,
+						target: target > 0 ? target : undefined,
+						extends: parentId || undefined
 					}
 				);
 			}
@@ -608,6 +1431,655 @@ class TemplateEditorModal extends Modal {
 	}
 }
 
+// Snippet Editor Modal
+class SnippetEditorModal extends Modal {
+	plugin: IWritingMomentumPlugin;
+	snippet: TemplateSnippet | null;
+	onSave: () => void;
+
+	nameInput: HTMLInputElement;
+	descriptionInput: HTMLInputElement;
+	contentTextarea: HTMLTextAreaElement;
+
+	constructor(app: App, plugin: IWritingMomentumPlugin, snippet: TemplateSnippet | null, onSave: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.snippet = snippet;
+		this.onSave = onSave;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: this.snippet ? 'Edit snippet' : 'Create new snippet' });
+
+		new Setting(contentEl)
+			.setName('Snippet name')
+			.setDesc('Used in templates as {{> name}}. Letters, numbers, - and _ only.')
+			.addText(text => {
+				this.nameInput = text.inputEl;
+				text.setValue(this.snippet?.name || '')
+					.setPlaceholder('Gratitude');
+			});
+
+		new Setting(contentEl)
+			.setName('Description')
+			.setDesc('Optional description')
+			.addText(text => {
+				this.descriptionInput = text.inputEl;
+				text.setValue(this.snippet?.description || '')
+					.setPlaceholder('What does this snippet add?');
+			});
+
+		const contentSetting = contentEl.createDiv('template-content-setting');
+		contentSetting.createEl('label', { text: 'Snippet content', cls: 'setting-item-name' });
+		contentSetting.createEl('div', {
+			text: 'Snippets can use variables, conditions and other snippets.',
+			cls: 'setting-item-description'
+		});
+
+		this.contentTextarea = contentSetting.createEl('textarea', {
+			placeholder: '## Gratitude\n{{#each 3}}\n{{@number}}. \n{{/each}}',
+			cls: 'template-content-textarea'
+		});
+		this.contentTextarea.value = this.snippet?.content || '';
+		this.contentTextarea.rows = 10;
+
+		const buttonContainer = contentEl.createDiv('template-modal-buttons');
+
+		const saveButton = buttonContainer.createEl('button', {
+			text: this.snippet ? 'Save changes' : 'Create snippet',
+			cls: 'mod-cta'
+		});
+		saveButton.addEventListener('click', () => {
+			void this.handleSave();
+		});
+
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+	}
+
+	async handleSave() {
+		const content = this.contentTextarea.value;
+		const syntaxError = validateTemplateSyntax(content);
+		if (syntaxError) {
+			new Notice(`Validation errors:\n${syntaxError}`);
+			return;
+		}
+
+		try {
+			await this.plugin.templateManager.saveSnippet(
+				this.nameInput.value,
+				content,
+				this.descriptionInput.value,
+				this.snippet?.name
+			);
+			this.onSave();
+			this.close();
+		} catch (error) {
+			new Notice(`Error: ${error.message}`);
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+// Project Editor Modal
+class ProjectEditorModal extends Modal {
+	plugin: IWritingMomentumPlugin;
+	project: Project | null;
+	onSave: () => void;
+
+	nameInput: HTMLInputElement;
+	scopeDropdown: HTMLSelectElement;
+	folderInput: HTMLInputElement;
+	tagInput: HTMLInputElement;
+	filesTextarea: HTMLTextAreaElement;
+	targetInput: HTMLInputElement;
+	deadlineInput: HTMLInputElement;
+	sessionsInput: HTMLInputElement;
+	folderSetting: Setting;
+	tagSetting: Setting;
+	filesSetting: Setting;
+
+	constructor(app: App, plugin: IWritingMomentumPlugin, project: Project | null, onSave: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.project = project;
+		this.onSave = onSave;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: this.project ? 'Edit project' : 'Create new project' });
+
+		new Setting(contentEl)
+			.setName('Project name')
+			.addText(text => {
+				this.nameInput = text.inputEl;
+				text.setValue(this.project?.name || '')
+					.setPlaceholder('My novel');
+			});
+
+		new Setting(contentEl)
+			.setName('Notes in this project')
+			.setDesc('Choose how notes are matched to the project')
+			.addDropdown(dropdown => {
+				this.scopeDropdown = dropdown.selectEl;
+				dropdown
+					.addOption('folder', 'Folder or glob')
+					.addOption('tag', 'Tag')
+					.addOption('files', 'List of notes')
+					.setValue(this.project?.scope || 'folder')
+					.onChange(() => this.updateScopeFields());
+			});
+
+		this.folderSetting = new Setting(contentEl)
+			.setName('Folder')
+			.setDesc('A folder includes its subfolders. Globs such as drafts/** are also supported.')
+			.addText(text => {
+				this.folderInput = text.inputEl;
+				text.setValue(this.project?.folder || '')
+					.setPlaceholder('Novel');
+			});
+
+		this.tagSetting = new Setting(contentEl)
+			.setName('Tag')
+			.setDesc('Nested tags are included')
+			.addText(text => {
+				this.tagInput = text.inputEl;
+				text.setValue(this.project?.tag || '')
+					.setPlaceholder('Thesis');
+			});
+
+		this.filesSetting = new Setting(contentEl)
+			.setName('Notes')
+			.setDesc('One note path per line')
+			.addTextArea(textArea => {
+				this.filesTextarea = textArea.inputEl;
+				this.filesTextarea.rows = 5;
+				textArea.setValue((this.project?.files || []).join('\n'))
+					.setPlaceholder('posts/first-post.md');
+			});
+
+		new Setting(contentEl)
+			.setName('Target word count')
+			.addText(text => {
+				this.targetInput = text.inputEl;
+				this.targetInput.type = 'number';
+				text.setValue(this.project ? String(this.project.targetWords) : '')
+					.setPlaceholder('80000');
+			});
+
+		new Setting(contentEl)
+			.setName('Deadline')
+			.setDesc('Optional')
+			.addText(text => {
+				this.deadlineInput = text.inputEl;
+				this.deadlineInput.type = 'date';
+				text.setValue(this.project?.deadline || '');
+			});
+
+		new Setting(contentEl)
+			.setName('Sessions per week')
+			.setDesc('Optional')
+			.addText(text => {
+				this.sessionsInput = text.inputEl;
+				this.sessionsInput.type = 'number';
+				text.setValue(this.project?.sessionsPerWeek ? String(this.project.sessionsPerWeek) : '')
+					.setPlaceholder('3');
+			});
+
+		this.updateScopeFields();
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv('template-modal-buttons');
+
+		const saveButton = buttonContainer.createEl('button', {
+			text: this.project ? 'Save changes' : 'Create project',
+			cls: 'mod-cta'
+		});
+		saveButton.addEventListener('click', () => {
+			void this.handleSave();
+		});
+
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+	}
+
+	private updateScopeFields() {
+		const scope = this.scopeDropdown.value as ProjectScope;
+		this.folderSetting.settingEl.toggle(scope === 'folder');
+		this.tagSetting.settingEl.toggle(scope === 'tag');
+		this.filesSetting.settingEl.toggle(scope === 'files');
+	}
+
+	async handleSave() {
+		const sessionsPerWeek = parseInt(this.sessionsInput.value, 10);
+		const input = {
+			name: this.nameInput.value,
+			scope: this.scopeDropdown.value as ProjectScope,
+			folder: this.folderInput.value,
+			tag: this.tagInput.value,
+			files: this.filesTextarea.value.split('\n'),
+			targetWords: parseInt(this.targetInput.value, 10),
+			deadline: this.deadlineInput.value || undefined,
+			sessionsPerWeek: sessionsPerWeek > 0 ? sessionsPerWeek : undefined
+		};
+
+		try {
+			if (this.project) {
+				await this.plugin.projectManager.updateProject(this.project.id, input);
+			} else {
+				await this.plugin.projectManager.createProject(input);
+			}
+
+			this.onSave();
+			this.close();
+		} catch (error) {
+			new Notice(`Error: ${error.message}`);
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+class StreakEditorModal extends Modal {
+	plugin: IWritingMomentumPlugin;
+	streak: StreakDefinition | null;
+	onSave: () => void;
+
+	nameInput: HTMLInputElement;
+	modeDropdown: HTMLSelectElement;
+	countsDropdown: HTMLSelectElement;
+	targetInput: HTMLInputElement;
+	rollingDaysInput: HTMLInputElement;
+	minWordsInput: HTMLInputElement;
+	projectDropdown: HTMLSelectElement;
+	graceInput: HTMLInputElement;
+	restDays: number[];
+	targetSetting: Setting;
+	rollingDaysSetting: Setting;
+	restDaysSetting: Setting;
+
+	constructor(app: App, plugin: IWritingMomentumPlugin, streak: StreakDefinition | null, onSave: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.streak = streak;
+		this.onSave = onSave;
+		this.restDays = [...(streak?.restDays || [])];
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: this.streak ? 'Edit streak' : 'Create new streak' });
+
+		new Setting(contentEl)
+			.setName('Streak name')
+			.addText(text => {
+				this.nameInput = text.inputEl;
+				text.setValue(this.streak?.name || '')
+					.setPlaceholder('500 words a day');
+			});
+
+		new Setting(contentEl)
+			.setName('Period')
+			.addDropdown(dropdown => {
+				this.modeDropdown = dropdown.selectEl;
+				dropdown
+					.addOption('daily', 'Every day')
+					.addOption('weekly', 'Every week')
+					.addOption('monthly', 'Every month')
+					.addOption('rolling', 'Every few days')
+					.setValue(this.streak?.mode || 'daily')
+					.onChange(() => this.updateModeFields());
+			});
+
+		this.rollingDaysSetting = new Setting(contentEl)
+			.setName('Days per period')
+			.setDesc('Length of each window, counted back from today')
+			.addText(text => {
+				this.rollingDaysInput = text.inputEl;
+				this.rollingDaysInput.type = 'number';
+				text.setValue(String(this.streak?.rollingDays ?? DEFAULT_SETTINGS.streakRule.rollingDays))
+					.setPlaceholder('7');
+			});
+
+		this.targetSetting = new Setting(contentEl)
+			.setName('Target per period')
+			.addText(text => {
+				this.targetInput = text.inputEl;
+				this.targetInput.type = 'number';
+				text.setValue(this.streak ? String(this.streak.target) : '')
+					.setPlaceholder('5');
+			})
+			.addDropdown(dropdown => {
+				this.countsDropdown = dropdown.selectEl;
+				dropdown
+					.addOption('days', 'Writing days')
+					.addOption('sessions', 'Sessions')
+					.setValue(this.streak?.counts || 'days');
+			});
+
+		new Setting(contentEl)
+			.setName('Minimum words')
+			.setDesc('Words a day needs before it counts. Use 0 for any writing.')
+			.addText(text => {
+				this.minWordsInput = text.inputEl;
+				this.minWordsInput.type = 'number';
+				text.setValue(String(this.streak?.minWords ?? 0));
+			});
+
+		new Setting(contentEl)
+			.setName('Project')
+			.setDesc('Only count writing in this project')
+			.addDropdown(dropdown => {
+				this.projectDropdown = dropdown.selectEl;
+				dropdown.addOption('', 'Any note');
+				for (const project of this.plugin.projectManager.getAllProjects()) {
+					dropdown.addOption(project.id, project.name);
+				}
+				dropdown.setValue(this.streak?.projectId || '');
+			});
+
+		this.restDaysSetting = new Setting(contentEl)
+			.setName('Days off')
+			.setDesc('Days that never break this streak')
+			.then(setting => {
+				['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].forEach((day, index) => {
+					const dayBtn = setting.controlEl.createEl('button', { text: day, cls: 'rest-day-btn' });
+					dayBtn.toggleClass('is-selected', this.restDays.includes(index));
+					dayBtn.addEventListener('click', () => {
+						this.restDays = this.restDays.includes(index)
+							? this.restDays.filter(d => d !== index)
+							: [...this.restDays, index].sort((a, b) => a - b);
+						dayBtn.toggleClass('is-selected', this.restDays.includes(index));
+					});
+				});
+			});
+
+		new Setting(contentEl)
+			.setName('Grace')
+			.setDesc('Missed days or periods forgiven before the streak breaks')
+			.addText(text => {
+				this.graceInput = text.inputEl;
+				this.graceInput.type = 'number';
+				text.setValue(String(this.streak?.grace ?? 0));
+			});
+
+		this.updateModeFields();
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv('template-modal-buttons');
+
+		const saveButton = buttonContainer.createEl('button', {
+			text: this.streak ? 'Save changes' : 'Create streak',
+			cls: 'mod-cta'
+		});
+		saveButton.addEventListener('click', () => {
+			void this.handleSave();
+		});
+
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+	}
+
+	private updateModeFields() {
+		const mode = this.modeDropdown.value;
+		this.targetSetting.settingEl.toggle(mode !== 'daily');
+		this.rollingDaysSetting.settingEl.toggle(mode === 'rolling');
+		this.restDaysSetting.settingEl.toggle(mode === 'daily');
+	}
+
+	async handleSave() {
+		const mode = this.modeDropdown.value as StreakDefinition['mode'];
+		const input = {
+			name: this.nameInput.value,
+			mode,
+			counts: this.countsDropdown.value as StreakCounts,
+			target: mode !== 'daily' ? parseInt(this.targetInput.value, 10) : 1,
+			rollingDays: mode === 'rolling' ? parseInt(this.rollingDaysInput.value, 10) : undefined,
+			minWords: parseInt(this.minWordsInput.value, 10) || 0,
+			projectId: this.projectDropdown.value || undefined,
+			restDays: this.restDays,
+			grace: parseInt(this.graceInput.value, 10) || 0,
+			// Freezes follow the main streak's settings
+			freezeAfterDays: this.streak?.freezeAfterDays ?? this.plugin.settings.streakRule.freezeAfterDays,
+			maxFreezes: this.streak?.maxFreezes ?? this.plugin.settings.streakRule.maxFreezes
+		};
+
+		try {
+			if (this.streak) {
+				await this.plugin.streakManager.updateStreak(this.streak.id, input);
+			} else {
+				await this.plugin.streakManager.createStreak(input);
+			}
+
+			this.onSave();
+			this.close();
+		} catch (error) {
+			new Notice(`Error: ${error.message}`);
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+// Reminder Editor Modal
+class ReminderEditorModal extends Modal {
+	plugin: IWritingMomentumPlugin;
+	reminder: ReminderConfig | null;
+	onSave: () => void;
+
+	timeInput: HTMLInputElement;
+	templateDropdown: HTMLSelectElement;
+	secondShotInput: HTMLInputElement;
+	dndStartInput: HTMLInputElement;
+	dndEndInput: HTMLInputElement;
+	days: number[];
+	snoozeOptions: number[];
+	adaptive: boolean;
+	skipWhenGoalMet: boolean;
+	dndEnabled: boolean;
+	dndTimesEl: HTMLElement;
+
+	constructor(app: App, plugin: IWritingMomentumPlugin, reminder: ReminderConfig | null, onSave: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.reminder = reminder;
+		this.onSave = onSave;
+		this.days = [...(reminder?.days || [0, 1, 2, 3, 4, 5, 6])];
+		this.snoozeOptions = [...(reminder?.snoozeOptions || DEFAULT_SNOOZE_OPTIONS)];
+		this.adaptive = !!reminder?.adaptive;
+		this.skipWhenGoalMet = !!reminder?.skipWhenGoalMet;
+		this.dndEnabled = !!reminder?.dnd;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: this.reminder ? 'Edit reminder' : 'Create new reminder' });
+
+		new Setting(contentEl)
+			.setName('Time')
+			.addText(text => {
+				this.timeInput = text.inputEl;
+				this.timeInput.type = 'time';
+				text.setValue(this.reminder?.time || '21:00');
+			});
+
+		const suggestion = this.plugin.reminderManager.suggestTime(this.reminder?.time || '21:00', this.days);
+		if (suggestion) {
+			new Setting(contentEl)
+				.setName('Suggested time')
+				.setDesc(`You have usually started writing just after ${suggestion} on these days over the last few weeks`)
+				.addButton(button => button
+					.setButtonText(`Use ${suggestion}`)
+					.onClick(() => {
+						this.timeInput.value = suggestion;
+					}));
+		}
+
+		new Setting(contentEl)
+			.setName('Adapt to my writing times')
+			.setDesc('On each day, move this reminder to just before the time you usually start writing, within three hours of the time above')
+			.addToggle(toggle => toggle
+				.setValue(this.adaptive)
+				.onChange(value => {
+					this.adaptive = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('Days')
+			.then(setting => {
+				['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].forEach((day, index) => {
+					const dayBtn = setting.controlEl.createEl('button', { text: day, cls: 'reminder-day-btn' });
+					dayBtn.toggleClass('is-selected', this.days.includes(index));
+					dayBtn.addEventListener('click', () => {
+						this.days = this.days.includes(index)
+							? this.days.filter(d => d !== index)
+							: [...this.days, index].sort((a, b) => a - b);
+						dayBtn.toggleClass('is-selected', this.days.includes(index));
+					});
+				});
+			});
+
+		new Setting(contentEl)
+			.setName('Template')
+			.setDesc('Template for the note the reminder creates')
+			.addDropdown(dropdown => {
+				this.templateDropdown = dropdown.selectEl;
+				dropdown.addOption('', 'Active template');
+				for (const template of this.plugin.templateManager.getAllTemplates()) {
+					dropdown.addOption(template.id, template.name);
+				}
+				const templateId = this.reminder?.templateId;
+				dropdown.setValue(templateId && this.plugin.templateManager.getTemplate(templateId) ? templateId : '');
+			});
+
+		new Setting(contentEl)
+			.setName('Second reminder (minutes)')
+			.setDesc('Remind again after this many minutes if you have not written yet. Use 0 for no second reminder.')
+			.addText(text => {
+				this.secondShotInput = text.inputEl;
+				this.secondShotInput.type = 'number';
+				text.setValue(String(this.reminder?.secondShotMins ?? 0));
+			});
+
+		new Setting(contentEl)
+			.setName('Snooze options')
+			.setDesc('Snooze buttons shown on the reminder. Select none to hide snoozing.')
+			.then(setting => {
+				SNOOZE_CHOICES.forEach(minutes => {
+					const optionBtn = setting.controlEl.createEl('button', { text: formatSnooze(minutes), cls: 'snooze-option-btn' });
+					optionBtn.toggleClass('is-selected', this.snoozeOptions.includes(minutes));
+					optionBtn.addEventListener('click', () => {
+						this.snoozeOptions = this.snoozeOptions.includes(minutes)
+							? this.snoozeOptions.filter(m => m !== minutes)
+							: [...this.snoozeOptions, minutes].sort((a, b) => a - b);
+						optionBtn.toggleClass('is-selected', this.snoozeOptions.includes(minutes));
+					});
+				});
+			});
+
+		new Setting(contentEl)
+			.setName("Skip once today's goal is met")
+			.addToggle(toggle => toggle
+				.setValue(this.skipWhenGoalMet)
+				.onChange(value => {
+					this.skipWhenGoalMet = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('Quiet hours')
+			.setDesc('Skip this reminder when it comes due between these times')
+			.addToggle(toggle => toggle
+				.setValue(this.dndEnabled)
+				.onChange(value => {
+					this.dndEnabled = value;
+					this.dndTimesEl.toggle(value);
+				}));
+
+		this.dndTimesEl = contentEl.createDiv();
+		new Setting(this.dndTimesEl)
+			.setName('Quiet from')
+			.addText(text => {
+				this.dndStartInput = text.inputEl;
+				this.dndStartInput.type = 'time';
+				text.setValue(this.reminder?.dnd?.start || '23:30');
+			});
+		new Setting(this.dndTimesEl)
+			.setName('Quiet until')
+			.addText(text => {
+				this.dndEndInput = text.inputEl;
+				this.dndEndInput.type = 'time';
+				text.setValue(this.reminder?.dnd?.end || '07:30');
+			});
+		this.dndTimesEl.toggle(this.dndEnabled);
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv('template-modal-buttons');
+
+		const saveButton = buttonContainer.createEl('button', {
+			text: this.reminder ? 'Save changes' : 'Create reminder',
+			cls: 'mod-cta'
+		});
+		saveButton.addEventListener('click', () => {
+			void this.handleSave();
+		});
+
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+	}
+
+	async handleSave() {
+		const input: ReminderInput = {
+			time: this.timeInput.value,
+			days: this.days,
+			templateId: this.templateDropdown.value || undefined,
+			secondShotMins: parseInt(this.secondShotInput.value, 10) || 0,
+			snoozeOptions: this.snoozeOptions,
+			adaptive: this.adaptive || undefined,
+			skipWhenGoalMet: this.skipWhenGoalMet || undefined,
+			dnd: this.dndEnabled ? { start: this.dndStartInput.value, end: this.dndEndInput.value } : undefined,
+			enabled: this.reminder?.enabled ?? true
+		};
+
+		try {
+			if (this.reminder) {
+				await this.plugin.reminderManager.updateReminder(this.reminder.id, input);
+			} else {
+				await this.plugin.reminderManager.createReminder(input);
+			}
+
+			this.onSave();
+			this.close();
+		} catch (error) {
+			new Notice(`Error: ${error.message}`);
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
 // Template Preview Modal
 class TemplatePreviewModal extends Modal {
 	template: Template;
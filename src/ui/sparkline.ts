@@ -0,0 +1,25 @@
+const WIDTH = 100;
+const HEIGHT = 24;
+
+/**
+ * Draw values as a small line chart that stretches to the container's width
+ */
+export function renderSparkline(container: HTMLElement, values: number[]) {
+  container.empty();
+  if (values.length === 0) return;
+
+  const svg = container.createSvg('svg', {
+    cls: 'wm-sparkline',
+    attr: { viewBox: `0 0 ${WIDTH} ${HEIGHT}`, preserveAspectRatio: 'none' }
+  });
+
+  // A single value is drawn as a flat line
+  const points = values.length === 1 ? [values[0], values[0]] : values;
+  const max = Math.max(1, ...points);
+  const step = WIDTH / (points.length - 1);
+  const coordinates = points
+    .map((value, index) => `${(index * step).toFixed(1)},${(HEIGHT - (value / max) * (HEIGHT - 2) - 1).toFixed(1)}`)
+    .join(' ');
+
+  svg.createSvg('polyline', { attr: { points: coordinates } });
+}
@@ -0,0 +1,65 @@
+import { Modal, App, Setting } from 'obsidian';
+import { SPRINT_DURATIONS } from '../types/interfaces';
+
+export class SprintModal extends Modal {
+  private onStart: (durationMin: number, targetWords?: number) => void;
+  private durationMin = SPRINT_DURATIONS[0];
+  private targetWords: number | undefined;
+
+  constructor(app: App, onStart: (durationMin: number, targetWords?: number) => void) {
+    super(app);
+    this.onStart = onStart;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: 'Start a sprint' });
+    contentEl.createEl('p', {
+      text: 'Write as much as you can before the countdown ends.',
+      cls: 'setting-item-description'
+    });
+
+    new Setting(contentEl)
+      .setName('Length')
+      .addDropdown(dropdown => {
+        for (const minutes of SPRINT_DURATIONS) {
+          dropdown.addOption(String(minutes), `${minutes} minutes`);
+        }
+        dropdown.setValue(String(this.durationMin))
+          .onChange(value => {
+            this.durationMin = parseInt(value, 10);
+          });
+      });
+
+    new Setting(contentEl)
+      .setName('Word target')
+      .setDesc('Optional')
+      .addText(text => {
+        text.inputEl.type = 'number';
+        text.setPlaceholder('500')
+          .onChange(value => {
+            const words = parseInt(value, 10);
+            this.targetWords = words > 0 ? words : undefined;
+          });
+      });
+
+    const buttons = contentEl.createDiv({ cls: 'modal-button-container' });
+    const startBtn = buttons.createEl('button', { text: 'Start', cls: 'mod-cta' });
+    startBtn.addEventListener('click', () => {
+      this.close();
+      this.onStart(this.durationMin, this.targetWords);
+    });
+
+    const cancelBtn = buttons.createEl('button', { text: 'Cancel' });
+    cancelBtn.addEventListener('click', () => {
+      this.close();
+    });
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
@@ -0,0 +1,97 @@
+import { Modal, App } from 'obsidian';
+import type { PersonalBests, SprintResult } from '../types/interfaces';
+import { renderSparkline } from './sparkline';
+
+export class SprintResultsModal extends Modal {
+  private result: SprintResult;
+  private bests: PersonalBests | null; // from before this sprint
+
+  constructor(app: App, result: SprintResult, bests: PersonalBests | null) {
+    super(app);
+    this.result = result;
+    this.bests = bests;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('wm-sprint-results-modal');
+
+    const { result, bests } = this;
+
+    // Header
+    const header = contentEl.createDiv('wm-modal-header');
+    header.createEl('h2', { text: result.completed ? 'Sprint complete' : 'Sprint ended early' });
+    header.createEl('p', {
+      text: `${result.durationMin} minute sprint`,
+      cls: 'wm-modal-subtitle'
+    });
+
+    // Results
+    const resultsSection = contentEl.createDiv('wm-modal-section');
+    const grid = resultsSection.createDiv('wm-recommendation-grid');
+    this.addResultCard(grid, 'Words', result.words.toLocaleString(), '📝');
+    this.addResultCard(grid, 'Words per minute', result.wpm.toString(), '⚡');
+    if (result.targetWords) {
+      const met = result.words >= result.targetWords;
+      this.addResultCard(
+        grid,
+        `Target of ${result.targetWords.toLocaleString()}`,
+        met ? 'Met' : `${(result.targetWords - result.words).toLocaleString()} short`,
+        met ? '🎯' : '🏃'
+      );
+    }
+
+    if (result.wpmSamples.length > 0) {
+      resultsSection.createEl('p', { text: 'Pace over the sprint', cls: 'setting-item-description' });
+      renderSparkline(resultsSection.createDiv('sprint-sparkline'), result.wpmSamples);
+    }
+
+    // Personal bests
+    const bestsSection = contentEl.createDiv('wm-modal-section');
+    bestsSection.createEl('h3', { text: `🏆 best ${result.durationMin} minute sprints` });
+
+    if (!result.completed) {
+      bestsSection.createEl('p', { text: 'Only sprints that run their full length count toward personal bests.' });
+    } else if (!bests) {
+      bestsSection.createEl('p', { text: 'Your first sprint of this length sets the bar to beat.' });
+    } else {
+      this.addComparison(bestsSection, 'Words', result.words, bests.words);
+      this.addComparison(bestsSection, 'Words per minute', result.wpm, bests.wpm);
+    }
+
+    // Action buttons
+    const actions = contentEl.createDiv('wm-modal-actions');
+    const closeBtn = actions.createEl('button', {
+      text: 'Close',
+      cls: 'wm-modal-btn wm-modal-btn-primary'
+    });
+    closeBtn.addEventListener('click', () => {
+      this.close();
+    });
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  private addResultCard(container: HTMLElement, label: string, value: string, icon: string) {
+    const card = container.createDiv('wm-rec-card');
+    card.createEl('div', { text: icon, cls: 'wm-rec-icon' });
+    card.createEl('div', { text: value, cls: 'wm-rec-value' });
+    card.createEl('div', { text: label, cls: 'wm-rec-label' });
+  }
+
+  private addComparison(container: HTMLElement, label: string, value: number, best: number) {
+    const row = container.createDiv('wm-answer-row');
+    row.createEl('div', { text: label, cls: 'wm-answer-label' });
+
+    const text = value > best
+      ? `🎉 new best, up from ${best.toLocaleString()}`
+      : value === best
+        ? `Matched your best of ${best.toLocaleString()}`
+        : `${(best - value).toLocaleString()} below your best of ${best.toLocaleString()}`;
+    row.createEl('div', { text, cls: 'wm-answer-value' });
+  }
+}
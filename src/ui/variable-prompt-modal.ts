@@ -0,0 +1,114 @@
+import { Modal, App, Notice, Setting } from 'obsidian';
+import type { TemplateField } from '../types/interfaces';
+import { fieldLabel } from '../core/template-fields';
+
+/**
+ * A form with one input per template variable, shown before a note is created
+ */
+export class VariablePromptModal extends Modal {
+  private templateName: string;
+  private fields: TemplateField[];
+  private values: Record<string, string>;
+  private onSubmit: (values: Record<string, string> | null) => void;
+  private submitted = false;
+
+  constructor(
+    app: App,
+    templateName: string,
+    fields: TemplateField[],
+    initialValues: Record<string, string>,
+    onSubmit: (values: Record<string, string> | null) => void
+  ) {
+    super(app);
+    this.templateName = templateName;
+    this.fields = fields;
+    this.values = { ...initialValues };
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: this.templateName });
+    contentEl.createEl('p', {
+      text: 'Fill in the details for this note.',
+      cls: 'setting-item-description'
+    });
+
+    for (const field of this.fields) {
+      const setting = new Setting(contentEl).setName(fieldLabel(field) + (field.required ? ' *' : ''));
+      const value = this.values[field.name] ?? '';
+
+      if (field.type === 'choice' && field.options && field.options.length > 0) {
+        const options = field.options;
+        setting.addDropdown(dropdown => {
+          options.forEach(option => dropdown.addOption(option, option));
+          this.values[field.name] = options.includes(value) ? value : options[0];
+          dropdown.setValue(this.values[field.name])
+            .onChange(choice => {
+              this.values[field.name] = choice;
+            });
+        });
+      } else {
+        setting.addText(text => {
+          if (field.type === 'number') text.inputEl.type = 'number';
+          if (field.type === 'date') text.inputEl.type = 'date';
+          text.setValue(value)
+            .onChange(answer => {
+              this.values[field.name] = answer;
+            });
+          text.inputEl.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              this.submit();
+            }
+          });
+        });
+      }
+    }
+
+    const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+    const createBtn = buttonContainer.createEl('button', { text: 'Create note', cls: 'mod-cta' });
+    createBtn.addEventListener('click', () => this.submit());
+
+    const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    contentEl.querySelector('input')?.focus();
+  }
+
+  private submit() {
+    const missing = this.fields.find(field => field.required && !(this.values[field.name] || '').trim());
+    if (missing) {
+      new Notice(`${fieldLabel(missing)} is required`);
+      return;
+    }
+
+    this.submitted = true;
+    this.close();
+    this.onSubmit(this.values);
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+    if (!this.submitted) {
+      this.onSubmit(null);
+    }
+  }
+}
+
+/**
+ * Ask for template values; resolves to null when the form is cancelled
+ */
+export function promptForValues(
+  app: App,
+  templateName: string,
+  fields: TemplateField[],
+  initialValues: Record<string, string>
+): Promise<Record<string, string> | null> {
+  return new Promise(resolve => {
+    new VariablePromptModal(app, templateName, fields, initialValues, resolve).open();
+  });
+}
@@ -1,5 +1,13 @@
 import { Modal, App } from 'obsidian';
-import type { WritingProfile } from '../types/interfaces';
+import type { WritingProfile, UnitType } from '../types/interfaces';
+import { UNIT_LABELS } from '../types/interfaces';
+
+const TRACKING_METHODS: Record<UnitType, [string, string]> = {
+  words: ['📊', 'Word count'],
+  characters: ['🈶', 'Character count'],
+  mixed: ['🔀', 'Mixed words and characters'],
+  minutes: ['⏱️', 'Time-based']
+};
 
 export class WritingPurposeModal extends Modal {
   private profile: WritingProfile;
@@ -64,16 +72,13 @@ export class WritingPurposeModal extends Modal {
     trackingSection.createEl('h3', { text: '📊 progress tracking' });
 
     const trackingCard = trackingSection.createDiv('wm-tracking-card');
-    const trackingIcon = this.profile.answers.unitPref === 'words' ? '📊' : '⏱️';
-    const trackingLabel = this.profile.answers.unitPref === 'words' ? 'Word count' : 'Time-based';
+    const [trackingIcon, trackingLabel] = TRACKING_METHODS[this.profile.answers.unitPref];
 
     trackingCard.createEl('div', { text: trackingIcon, cls: 'wm-tracking-icon' });
     trackingCard.createEl('div', { text: trackingLabel, cls: 'wm-tracking-label' });
 
     if (this.profile.answers.targetHint) {
-      const hintText = this.profile.answers.unitPref === 'words'
-        ? `${this.profile.answers.targetHint} words (your hint)`
-        : `${this.profile.answers.targetHint} minutes (your hint)`;
+      const hintText = `${this.profile.answers.targetHint} ${UNIT_LABELS[this.profile.answers.unitPref]} (your hint)`;
       trackingCard.createEl('div', { text: hintText, cls: 'wm-tracking-hint' });
     }
 